@@ -1,3 +1,4 @@
+import { Route, Routes } from 'react-router-dom'
 import { QRCodeGenerator } from './components/QRCodeGenerator'
 import { Toaster } from './components/ui/toaster'
 import './App.css'
@@ -14,7 +15,10 @@ function App() {
             Convert any URL into a scannable QR code instantly
           </p>
         </div>
-        <QRCodeGenerator />
+        <Routes>
+          {/* Design settings travel in the query string, see lib/design.ts */}
+          <Route path="/" element={<QRCodeGenerator />} />
+        </Routes>
       </div>
       <Toaster />
     </div>
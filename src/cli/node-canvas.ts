@@ -0,0 +1,37 @@
+import type { Canvas, SKRSContext2D } from '@napi-rs/canvas'
+import type { Canvas2DContext, CanvasBackend } from '../lib/qr-canvas'
+
+function decodeDataUrl(dataUrl: string): Buffer {
+  const comma = dataUrl.indexOf(',')
+  const isBase64 = dataUrl.slice(0, comma).endsWith(';base64')
+  const body = dataUrl.slice(comma + 1)
+  return isBase64 ? Buffer.from(body, 'base64') : Buffer.from(decodeURIComponent(body))
+}
+
+// Canvas backend for Node on @napi-rs/canvas. The package is an optional
+// dependency, so SVG output keeps working where its native binary isn't available.
+export async function loadNodeCanvasBackend(): Promise<CanvasBackend> {
+  let skia: typeof import('@napi-rs/canvas')
+  try {
+    skia = await import('@napi-rs/canvas')
+  } catch {
+    throw new Error('PNG output needs the optional @napi-rs/canvas package. Install it, or use --format svg')
+  }
+
+  // Skia's context implements the same drawing API under its own type names
+  return {
+    createContext(width, height) {
+      return skia.createCanvas(width, height).getContext('2d') as unknown as Canvas2DContext
+    },
+    createPath: (d) => new skia.Path2D(d) as unknown as Path2D,
+    async loadImage(src) {
+      const source = src.startsWith('data:') ? decodeDataUrl(src) : src
+      const image = await skia.loadImage(source)
+      return { source: image as unknown as CanvasImageSource, width: image.width, height: image.height }
+    },
+    async encodePng(ctx) {
+      const canvas: Canvas = (ctx as unknown as SKRSContext2D).canvas
+      return new Uint8Array(await canvas.encode('png'))
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { assignFilenames, parseBatchInput } from '../lib/batch'
+import { isHexColor } from '../lib/color'
+import { DEFAULT_QR_DESIGN, getDesignStyle, type DesignStyle } from '../lib/design'
+import { parsePresetFile } from '../lib/presets'
+import type { CanvasBackend } from '../lib/qr-canvas'
+import { ERROR_CORRECTION_LABELS, type ErrorCorrectionSetting } from '../lib/qr-ecc'
+import { bytesToDataUrl, renderQR, type QROutputFormat } from '../lib/qr-render'
+import { normalizeUrl } from '../lib/url'
+import { loadNodeCanvasBackend } from './node-canvas'
+
+// Headless entry point to the rendering core, e.g. for build pipelines:
+//   qrgen https://example.com --size 512 --logo logo.png --format svg --out code.svg
+//   qrgen --batch links.csv --preset brand.json --out-dir codes
+
+const USAGE = `Usage: qrgen <content> [options]
+       qrgen --batch <file|-> [options]
+
+A URL as content is normalized as in the app (example.com becomes https://example.com/);
+other text is encoded as given.
+
+Options:
+  -o, --out <file>          Output file for a single code, "-" for stdout (default: qr-code.<format>)
+  -f, --format <png|svg>    Output format (default: from --out, otherwise png)
+  -b, --batch <file|->      URLs one per line, or CSV with url, filename, label and logo columns; "-" reads stdin
+      --out-dir <dir>       Output directory for --batch (default: current directory)
+  -p, --preset <file>       Preset file exported from the web app
+  -s, --size <px>           Image width in pixels
+  -m, --margin <modules>    Quiet zone width in modules
+  -e, --ecc <level>         Error correction: auto, L, M, Q or H
+      --foreground <hex>    Module color
+      --background <hex>    Background color
+  -l, --logo <file|url>     Logo for the center of the code
+  -h, --help                Show this help
+`
+
+type OutputFormat = Exclude<QROutputFormat, 'data-url'>
+
+interface CliOptions {
+  style: DesignStyle
+  format: OutputFormat
+  // Logo for every code unless a batch row names its own
+  logo: string
+}
+
+const LOGO_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+}
+
+function fail(message: string): never {
+  throw new Error(message)
+}
+
+function readInteger(value: string, name: string, min: number, max: number) {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    fail(`--${name} must be a whole number from ${min} to ${max}`)
+  }
+  return parsed
+}
+
+function readColor(value: string, name: string) {
+  const color = value.trim()
+  if (!isHexColor(color)) fail(`--${name} must be a hex color such as #000000`)
+  return color
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+// Logos are inlined as data URLs so SVG files are self-contained and each file is read once
+const logoCache = new Map<string, Promise<string>>()
+
+function readLogo(src: string): Promise<string> {
+  if (src.startsWith('data:')) return Promise.resolve(src)
+
+  let logo = logoCache.get(src)
+  if (!logo) {
+    logo = (async () => {
+      if (/^https?:\/\//i.test(src)) {
+        const response = await fetch(src, { signal: AbortSignal.timeout(8000) })
+        if (!response.ok) fail(`Logo request failed (${response.status}): ${src}`)
+        const type = response.headers.get('content-type')?.split(';')[0] ?? 'image/png'
+        return bytesToDataUrl(new Uint8Array(await response.arrayBuffer()), type)
+      }
+      const bytes = await readFile(src)
+      return bytesToDataUrl(bytes, LOGO_MIME_TYPES[extname(src).toLowerCase()] ?? 'image/png')
+    })()
+    logoCache.set(src, logo)
+  }
+  return logo
+}
+
+async function renderToFile(
+  text: string,
+  out: string,
+  logoSrc: string,
+  options: CliOptions,
+  canvas: CanvasBackend | undefined
+): Promise<{ logoApplied: boolean }> {
+  const { style } = options
+
+  let logo = ''
+  if (logoSrc) {
+    try {
+      logo = await readLogo(logoSrc)
+    } catch (error) {
+      console.warn(`⚠️ Logo could not be read, continuing without it: ${error instanceof Error ? error.message : logoSrc}`)
+    }
+  }
+
+  const { output, logoApplied } = await renderQR(text, {
+    format: options.format,
+    width: parseInt(style.size),
+    margin: style.margin,
+    errorCorrection: style.errorCorrection,
+    colors: style.colors,
+    style: style.style,
+    logo: logo ? { src: logo, options: style.logo } : null,
+    canvas
+  })
+
+  if (out === '-') {
+    process.stdout.write(output)
+  } else {
+    await writeFile(out, output)
+  }
+  return { logoApplied: logoApplied || !logoSrc }
+}
+
+async function runBatch(input: string, outDir: string, options: CliOptions, canvas: CanvasBackend | undefined) {
+  const rows = parseBatchInput(input === '-' ? await readStdin() : await readFile(input, 'utf8'))
+  if (rows.length === 0) fail('The batch input has no rows')
+
+  await mkdir(outDir, { recursive: true })
+  const filenames = assignFilenames(rows).map((name) => name.replace(/\.png$/, `.${options.format}`))
+  let failed = 0
+
+  for (const [index, row] of rows.entries()) {
+    const out = join(outDir, filenames[index])
+    const normalized = normalizeUrl(row.url)
+    if (!normalized.ok) {
+      failed++
+      console.error(`❌ Line ${row.line}: ${row.url ? normalized.message : 'Missing URL'}`)
+      continue
+    }
+
+    try {
+      const { logoApplied } = await renderToFile(normalized.url, out, row.logo || options.logo, options, canvas)
+      console.error(`✅ ${out}${logoApplied ? '' : ' (without logo)'}`)
+    } catch (error) {
+      failed++
+      console.error(`❌ Line ${row.line}: ${error instanceof Error ? error.message : 'Generation failed'}`)
+    }
+  }
+
+  console.error(`${rows.length - failed} of ${rows.length} codes written to ${outDir}`)
+  if (failed > 0) process.exitCode = 1
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      batch: { type: 'string', short: 'b' },
+      'out-dir': { type: 'string', default: '.' },
+      preset: { type: 'string', short: 'p' },
+      size: { type: 'string', short: 's' },
+      margin: { type: 'string', short: 'm' },
+      ecc: { type: 'string', short: 'e' },
+      foreground: { type: 'string' },
+      background: { type: 'string' },
+      logo: { type: 'string', short: 'l' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+
+  const content = positionals.join(' ')
+  if (values.help || (!content && !values.batch)) {
+    process.stdout.write(USAGE)
+    return
+  }
+  if (content && values.batch) fail('Pass either content or --batch, not both')
+
+  // Preset first, then individual flags on top
+  let style = getDesignStyle(DEFAULT_QR_DESIGN)
+  let presetLogo = ''
+  if (values.preset) {
+    const preset = parsePresetFile(await readFile(values.preset, 'utf8'))
+    style = preset.style
+    if (style.logoEnabled) {
+      if (preset.logoUrl) {
+        presetLogo = preset.logoUrl
+      } else if (style.autoDetectLogo) {
+        console.warn('⚠️ The preset detects logos from web pages, which the CLI does not do; pass --logo instead')
+      }
+    }
+  }
+
+  if (values.size) style = { ...style, size: String(readInteger(values.size, 'size', 64, 4096)) }
+  if (values.margin) style = { ...style, margin: readInteger(values.margin, 'margin', 0, 16) }
+  if (values.ecc) {
+    const ecc = values.ecc === 'auto' ? 'auto' : values.ecc.toUpperCase()
+    if (!(ecc in ERROR_CORRECTION_LABELS)) fail('--ecc must be one of auto, L, M, Q or H')
+    style = { ...style, errorCorrection: ecc as ErrorCorrectionSetting }
+  }
+  if (values.foreground) style = { ...style, colors: { ...style.colors, foreground: readColor(values.foreground, 'foreground') } }
+  if (values.background) style = { ...style, colors: { ...style.colors, background: readColor(values.background, 'background') } }
+
+  const format = values.format ?? (values.out && extname(values.out).toLowerCase() === '.svg' ? 'svg' : 'png')
+  if (format !== 'png' && format !== 'svg') fail('--format must be png or svg')
+
+  const options: CliOptions = { style, format, logo: values.logo ?? presetLogo }
+  const canvas = format === 'png' ? await loadNodeCanvasBackend() : undefined
+
+  if (values.batch) {
+    await runBatch(values.batch, values['out-dir'], options, canvas)
+    return
+  }
+
+  // URLs get the same normalization as in the app and in --batch, so each gives the
+  // same code; anything else (plain text, Wi-Fi strings) is encoded as given
+  const normalized = normalizeUrl(content)
+  const out = values.out ?? `qr-code.${format}`
+  const { logoApplied } = await renderToFile(normalized.ok ? normalized.url : content, out, options.logo, options, canvas)
+  if (out !== '-') console.error(`✅ ${out}${logoApplied ? '' : ' (without logo)'}`)
+}
+
+main().catch((error) => {
+  console.error(`qrgen: ${error instanceof Error ? error.message : error}`)
+  process.exitCode = 1
+})
@@ -0,0 +1,164 @@
+import { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+import { Progress } from './ui/progress'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { useToast } from '../hooks/use-toast'
+import { createBatchZip, parseBatchInput, type BatchItemResult, type BatchProgress, type BatchRow } from '../lib/batch'
+import { FileArchive, Loader2, Upload, X } from 'lucide-react'
+
+interface BatchDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  renderItem: (row: BatchRow) => Promise<BatchItemResult>
+  disabledReason?: string
+}
+
+export function BatchDialog({ open, onOpenChange, renderItem, disabledReason }: BatchDialogProps) {
+  const [input, setInput] = useState('')
+  const [progress, setProgress] = useState<BatchProgress | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const rows = parseBatchInput(input)
+
+  const handleCsvUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => setInput(String(e.target?.result ?? ''))
+    reader.readAsText(file)
+    event.target.value = ''
+  }
+
+  const runBatch = async () => {
+    if (rows.length === 0) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setProgress({ completed: 0, total: rows.length, failed: 0 })
+
+    try {
+      const summary = await createBatchZip(rows, renderItem, setProgress, controller.signal)
+
+      const objectUrl = URL.createObjectURL(summary.zip)
+      const link = document.createElement('a')
+      link.download = `qr-codes-${Date.now()}.zip`
+      link.href = objectUrl
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+
+      toast({
+        title: summary.cancelled ? "Batch Cancelled" : "Batch Complete!",
+        description: `${summary.succeeded} generated, ${summary.failed} failed. See manifest.csv for details.`,
+        variant: summary.failed > 0 && summary.succeeded === 0 ? "destructive" : undefined
+      })
+    } catch (error) {
+      console.error('Batch generation failed:', error)
+      toast({
+        title: "Batch Failed",
+        description: "Unable to create ZIP file",
+        variant: "destructive"
+      })
+    } finally {
+      abortRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const percent = progress ? Math.round((progress.completed / progress.total) * 100) : 0
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileArchive className="w-5 h-5 text-blue-600" />
+            Batch Generate
+          </DialogTitle>
+          <DialogDescription>
+            One URL per line, or CSV with columns url, filename, label, logo. Current colors, shapes, size and logo settings are applied to every code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={'url,filename,label,logo\nhttps://example.com/product-1,product-1,Product 1,'}
+            rows={8}
+            className="font-mono text-xs"
+            disabled={isRunning}
+          />
+
+          <div className="flex items-center justify-between">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              onChange={handleCsvUpload}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isRunning}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload CSV
+            </Button>
+            <span className="text-xs text-gray-500">{rows.length} {rows.length === 1 ? 'row' : 'rows'}</span>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={percent} />
+              <p className="text-xs text-gray-500">
+                {progress.completed} / {progress.total} processed
+                {progress.failed > 0 && <span className="text-red-600"> · {progress.failed} failed</span>}
+              </p>
+            </div>
+          )}
+
+          {disabledReason && (
+            <p className="text-xs text-red-600">{disabledReason}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          ) : null}
+          <Button
+            onClick={runBatch}
+            disabled={isRunning || rows.length === 0 || Boolean(disabledReason)}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isRunning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Generating...
+              </>
+            ) : (
+              <>
+                <FileArchive className="w-4 h-4 mr-2" />
+                Generate ZIP
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  describeOverflow,
+  measureQRCapacity,
+  minimumPrintSize,
+  SCAN_DISTANCES,
+  SEGMENT_MODE_LABELS
+} from '../lib/qr-capacity'
+import type { ErrorCorrectionLevel } from '../lib/qr-ecc'
+import { Gauge } from 'lucide-react'
+
+interface CapacityMeterProps {
+  // The text the code will encode; null until the input is valid
+  text: string | null
+  level: ErrorCorrectionLevel
+  margin: number
+}
+
+// Beyond this version codes get dense enough that small prints and older phones struggle
+const DENSE_VERSION = 10
+
+// How much of the code the content uses, and how large it must be printed
+export function CapacityMeter({ text, level, margin }: CapacityMeterProps) {
+  const [distance, setDistance] = useState('50')
+
+  if (!text) return null
+  const capacity = measureQRCapacity(text, level)
+  const printSize = capacity ? minimumPrintSize(capacity.moduleCount, margin, parseInt(distance)) : 0
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">Capacity</span>
+        </div>
+        {capacity && (
+          <span className="text-xs text-gray-500">
+            Version {capacity.version} · {capacity.moduleCount}×{capacity.moduleCount} modules
+          </span>
+        )}
+      </div>
+
+      {capacity ? (
+        <>
+          <div className="space-y-1">
+            <Progress value={(capacity.usedBytes / capacity.capacityBytes) * 100} className="h-1.5" />
+            <p className="text-xs text-gray-600">
+              {capacity.usedBytes} of {capacity.capacityBytes} bytes at level {capacity.level}; longer content moves to a larger version.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {capacity.segments.map((segment, index) => (
+              <Badge key={index} variant="outline" className="text-[10px] px-1.5 py-0 text-gray-600">
+                {SEGMENT_MODE_LABELS[segment.mode]} · {segment.length} {segment.mode === 'byte' ? 'bytes' : 'chars'}
+              </Badge>
+            ))}
+          </div>
+
+          {capacity.version > DENSE_VERSION && (
+            <p className="text-xs text-amber-700">
+              This is a dense code. Shorter content, or a dynamic link for long URLs, gives bigger modules that scan more easily.
+            </p>
+          )}
+
+          <div className="space-y-1">
+            <span className="text-xs text-gray-600">Scanning distance</span>
+            <Select value={distance} onValueChange={setDistance}>
+              <SelectTrigger className="h-9 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCAN_DISTANCES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Print at least {printSize.toFixed(1)} cm ({(printSize / 2.54).toFixed(1)} in) wide, quiet zone included.
+            </p>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-red-600">{describeOverflow(text, level)}</p>
+      )}
+    </div>
+  )
+}
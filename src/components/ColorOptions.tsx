@@ -0,0 +1,137 @@
+import { Input } from './ui/input'
+import { Switch } from './ui/switch'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { isHexColor } from '../lib/color'
+import type { ContrastAssessment, GradientType, QRColors } from '../lib/qr-colors'
+import { AlertTriangle, CheckCircle2, Palette, XCircle } from 'lucide-react'
+
+interface ColorFieldProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+export function ColorField({ label, value, onChange, disabled }: ColorFieldProps) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs text-gray-600">{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={isHexColor(value) && value.length === 7 ? value : '#000000'}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="h-9 w-10 shrink-0 cursor-pointer rounded border bg-white p-1 disabled:cursor-not-allowed disabled:opacity-50"
+          aria-label={`${label} picker`}
+        />
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="h-9 font-mono text-xs bg-white"
+          aria-label={label}
+        />
+      </div>
+    </div>
+  )
+}
+
+interface ColorOptionsProps {
+  colors: QRColors
+  onChange: (colors: QRColors) => void
+  contrast: ContrastAssessment
+}
+
+const contrastStyles = {
+  ok: { icon: CheckCircle2, className: 'text-green-700 bg-green-50 border-green-200' },
+  warn: { icon: AlertTriangle, className: 'text-amber-700 bg-amber-50 border-amber-200' },
+  block: { icon: XCircle, className: 'text-red-700 bg-red-50 border-red-200' }
+}
+
+export function ColorOptions({ colors, onChange, contrast }: ColorOptionsProps) {
+  const update = (patch: Partial<QRColors>) => onChange({ ...colors, ...patch })
+  const { icon: ContrastIcon, className: contrastClassName } = contrastStyles[contrast.level]
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Palette className="w-4 h-4 text-gray-600" />
+        <span className="text-sm font-medium text-gray-700">Colors</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <ColorField
+          label={colors.gradientType === 'none' ? 'Modules' : 'Gradient start'}
+          value={colors.foreground}
+          onChange={(foreground) => update({ foreground })}
+        />
+        <ColorField
+          label="Background"
+          value={colors.background}
+          onChange={(background) => update({ background })}
+          disabled={colors.transparentBackground}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-600">Transparent background</span>
+        <Switch
+          checked={colors.transparentBackground}
+          onCheckedChange={(transparentBackground) => update({ transparentBackground })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-gray-600">Module fill</span>
+        <Select
+          value={colors.gradientType}
+          onValueChange={(value) => update({ gradientType: value as GradientType })}
+        >
+          <SelectTrigger className="h-9 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Solid</SelectItem>
+            <SelectItem value="linear">Linear gradient</SelectItem>
+            <SelectItem value="radial">Radial gradient</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {colors.gradientType !== 'none' && (
+        <div className="space-y-3">
+          <ColorField
+            label="Gradient end"
+            value={colors.gradientColor}
+            onChange={(gradientColor) => update({ gradientColor })}
+          />
+          {colors.gradientType === 'linear' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-600">Angle</span>
+                <span className="text-xs text-gray-500">{colors.gradientAngle}°</span>
+              </div>
+              <Slider
+                min={0}
+                max={360}
+                step={5}
+                value={[colors.gradientAngle]}
+                onValueChange={([gradientAngle]) => update({ gradientAngle })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className={`flex items-start gap-2 p-2 rounded border text-xs ${contrastClassName}`}>
+        <ContrastIcon className="w-4 h-4 shrink-0" />
+        <span>
+          {contrast.ratio > 0 && <strong className="mr-1">{contrast.ratio.toFixed(1)}:1</strong>}
+          {contrast.message}
+        </span>
+      </div>
+    </div>
+  )
+}
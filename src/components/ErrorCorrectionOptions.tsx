@@ -0,0 +1,60 @@
+import { Progress } from './ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  ERROR_CORRECTION_LABELS,
+  type ErrorCorrectionSetting,
+  type LogoBudget
+} from '../lib/qr-ecc'
+import { ShieldPlus } from 'lucide-react'
+
+interface ErrorCorrectionOptionsProps {
+  value: ErrorCorrectionSetting
+  onChange: (value: ErrorCorrectionSetting) => void
+  // Null until there is valid content to measure
+  budget: LogoBudget | null
+  logoEnabled: boolean
+}
+
+export function ErrorCorrectionOptions({ value, onChange, budget, logoEnabled }: ErrorCorrectionOptionsProps) {
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldPlus className="w-4 h-4 text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">Error Correction</span>
+        </div>
+        {value === 'auto' && budget && (
+          <span className="text-xs text-gray-500">Using {ERROR_CORRECTION_LABELS[budget.level]}</span>
+        )}
+      </div>
+
+      <Select value={value} onValueChange={(next) => onChange(next as ErrorCorrectionSetting)}>
+        <SelectTrigger className="h-9 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(ERROR_CORRECTION_LABELS) as ErrorCorrectionSetting[]).map((setting) => (
+            <SelectItem key={setting} value={setting}>{ERROR_CORRECTION_LABELS[setting]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {logoEnabled && budget && (
+        <div className="space-y-1">
+          <Progress
+            value={Math.min(100, (budget.occludedPercent / budget.capacityPercent) * 100)}
+            className={budget.fits ? 'h-1.5' : 'h-1.5 [&>div]:bg-red-600'}
+          />
+          <p className={`text-xs ${budget.fits ? 'text-gray-600' : 'text-red-600'}`}>
+            Logo covers {budget.occludedPercent.toFixed(1)}% of modules; level {budget.level} recovers up to {budget.capacityPercent}%.
+            {!budget.fits && (value === 'auto' ? ' Even the highest level may not recover it.' : ' Choose a higher level.')}
+          </p>
+        </div>
+      )}
+
+      {logoEnabled && !budget && (
+        <p className="text-xs text-gray-500">Enter content to see how much of the code the logo covers.</p>
+      )}
+    </div>
+  )
+}
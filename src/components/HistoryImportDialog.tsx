@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { useToast } from '../hooks/use-toast'
+import { listHistory, putHistoryEntries, type HistoryEntry } from '../lib/history'
+import { parseHistoryFile, planHistoryImport, type ImportMode, type ParsedHistoryFile } from '../lib/history-file'
+import { FileUp, Loader2, Upload } from 'lucide-react'
+
+interface HistoryImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  existing: HistoryEntry[]
+  onImported: (entries: HistoryEntry[]) => void
+}
+
+const MAX_LISTED_ROWS = 5
+
+export function HistoryImportDialog({ open, onOpenChange, existing, onImported }: HistoryImportDialogProps) {
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<ParsedHistoryFile | null>(null)
+  const [fileError, setFileError] = useState('')
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const plan = parsed ? planHistoryImport(existing, parsed.entries, mode) : null
+
+  const reset = () => {
+    setFileName('')
+    setParsed(null)
+    setFileError('')
+    setMode('merge')
+  }
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        setParsed(parseHistoryFile(String(e.target?.result ?? '')))
+        setFileError('')
+      } catch (error) {
+        setParsed(null)
+        setFileError(error instanceof Error ? error.message : 'Unable to read file')
+      }
+    }
+    reader.readAsText(file)
+    event.target.value = ''
+  }
+
+  const runImport = async () => {
+    if (!parsed || !plan) return
+
+    setIsImporting(true)
+    try {
+      await putHistoryEntries(plan.toWrite, mode === 'replace')
+      onImported(await listHistory())
+
+      toast({
+        title: "History Imported!",
+        description: `${plan.toWrite.length} imported, ${plan.duplicates.length} duplicates skipped, ${parsed.invalid.length} invalid rows ignored.`
+      })
+      reset()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('History import failed:', error)
+      toast({
+        title: "Import Failed",
+        description: "Unable to save the imported codes",
+        variant: "destructive"
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (isImporting) return
+        if (!next) reset()
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-blue-600" />
+            Import History
+          </DialogTitle>
+          <DialogDescription>
+            Load a history file exported from this app on another browser or machine.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFile}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="w-full"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {fileName || 'Choose JSON file'}
+          </Button>
+
+          {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+
+          {parsed && plan && (
+            <>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="merge" id="import-merge" />
+                  <Label htmlFor="import-merge" className="text-sm font-normal">Merge with existing history</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="replace" id="import-replace" />
+                  <Label htmlFor="import-replace" className="text-sm font-normal">
+                    Replace existing history ({existing.length} codes)
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <div className="space-y-1 p-3 bg-gray-50 rounded-lg text-xs text-gray-700">
+                <p>{plan.toWrite.length} {plan.toWrite.length === 1 ? 'code' : 'codes'} will be imported</p>
+                {plan.duplicates.length > 0 && (
+                  <p className="text-amber-700">
+                    {plan.duplicates.length} {plan.duplicates.length === 1 ? 'duplicate' : 'duplicates'} will be skipped:{' '}
+                    {plan.duplicates.slice(0, MAX_LISTED_ROWS).map((entry) => entry.name).join(', ')}
+                    {plan.duplicates.length > MAX_LISTED_ROWS && '…'}
+                  </p>
+                )}
+                {parsed.invalid.length > 0 && (
+                  <div className="text-red-600">
+                    <p>{parsed.invalid.length} invalid {parsed.invalid.length === 1 ? 'row' : 'rows'} will be ignored:</p>
+                    <ul className="list-disc pl-4">
+                      {parsed.invalid.slice(0, MAX_LISTED_ROWS).map((row) => (
+                        <li key={row.row}>Row {row.row}: {row.message}</li>
+                      ))}
+                    </ul>
+                    {parsed.invalid.length > MAX_LISTED_ROWS && (
+                      <p>…and {parsed.invalid.length - MAX_LISTED_ROWS} more</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={runImport}
+            disabled={!plan || isImporting || (plan.toWrite.length === 0 && mode === 'merge')}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <FileUp className="w-4 h-4 mr-2" />
+                Import
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
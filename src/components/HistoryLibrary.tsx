@@ -0,0 +1,269 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Separator } from './ui/separator'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from './ui/alert-dialog'
+import { HistoryImportDialog } from './HistoryImportDialog'
+import { useToast } from '../hooks/use-toast'
+import { filterHistory, parseTags, type HistoryEntry } from '../lib/history'
+import { serializeHistory } from '../lib/history-file'
+import { Check, Download, FileUp, History, Pencil, QrCode, Search, Star, Trash2, X } from 'lucide-react'
+
+interface HistoryLibraryProps {
+  entries: HistoryEntry[]
+  onOpen: (entry: HistoryEntry) => void
+  onUpdate: (entry: HistoryEntry) => void
+  onDelete: (entry: HistoryEntry) => void
+  onClear: () => void
+  onImported: (entries: HistoryEntry[]) => void
+}
+
+export function HistoryLibrary({ entries, onOpen, onUpdate, onDelete, onClear, onImported }: HistoryLibraryProps) {
+  const [query, setQuery] = useState('')
+  const [favoritesOnly, setFavoritesOnly] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [draftTags, setDraftTags] = useState('')
+  const [importOpen, setImportOpen] = useState(false)
+  const { toast } = useToast()
+
+  const visible = filterHistory(entries, query, favoritesOnly)
+
+  const startEditing = (entry: HistoryEntry) => {
+    setEditingId(entry.id)
+    setDraftName(entry.name)
+    setDraftTags(entry.tags.join(', '))
+  }
+
+  const saveEditing = (entry: HistoryEntry) => {
+    onUpdate({
+      ...entry,
+      name: draftName.trim() || entry.label,
+      tags: parseTags(draftTags)
+    })
+    setEditingId(null)
+  }
+
+  const exportHistory = () => {
+    const objectUrl = URL.createObjectURL(new Blob([serializeHistory(entries)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.download = `qr-history-${new Date().toISOString().slice(0, 10)}.json`
+    link.href = objectUrl
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+
+    toast({
+      title: "History Exported!",
+      description: `${entries.length} saved ${entries.length === 1 ? 'code' : 'codes'} written to JSON`
+    })
+  }
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <History className="w-5 h-5 text-gray-600" />
+            History
+            <Badge variant="secondary" className="text-xs">{entries.length}</Badge>
+          </CardTitle>
+          <div className="flex">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-500"
+              onClick={() => setImportOpen(true)}
+              title="Import history"
+            >
+              <FileUp className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-500"
+              onClick={exportHistory}
+              disabled={entries.length === 0}
+              title="Export history"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-500 hover:text-red-600"
+                  disabled={entries.length === 0}
+                  title="Clear history"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear history?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All {entries.length} saved codes, including favorites, will be removed from this browser.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onClear} className="bg-red-600 hover:bg-red-700">
+                    Clear all
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {entries.length > 0 && (
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search names, content or tags"
+                className="pl-9 h-9"
+              />
+            </div>
+            <Button
+              variant={favoritesOnly ? 'secondary' : 'outline'}
+              size="sm"
+              className="h-9"
+              onClick={() => setFavoritesOnly(!favoritesOnly)}
+              title="Show favorites only"
+            >
+              <Star className={`w-4 h-4 ${favoritesOnly ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+            </Button>
+          </div>
+        )}
+
+        {visible.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">
+            {entries.length === 0 ? 'Generated codes are saved here.' : 'No saved codes match your search.'}
+          </p>
+        )}
+
+        <div className="space-y-2 max-h-[28rem] overflow-y-auto">
+          {visible.map((entry, index) => (
+            <div key={entry.id}>
+              {editingId === entry.id ? (
+                <div className="space-y-2 p-3 rounded-lg bg-gray-50">
+                  <Input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    placeholder="Name"
+                    className="h-9"
+                    autoFocus
+                  />
+                  <Input
+                    value={draftTags}
+                    onChange={(e) => setDraftTags(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveEditing(entry)}
+                    placeholder="Tags, separated by commas"
+                    className="h-9"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                      <X className="w-4 h-4 mr-1" />
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={() => saveEditing(entry)} className="bg-blue-600 hover:bg-blue-700">
+                      <Check className="w-4 h-4 mr-1" />
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 group">
+                  <button
+                    onClick={() => onOpen(entry)}
+                    className="flex-1 min-w-0 flex items-center gap-3 text-left p-2 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    {entry.thumbnail ? (
+                      <img src={entry.thumbnail} alt="" className="w-10 h-10 rounded border bg-white flex-shrink-0" />
+                    ) : (
+                      <div className="w-10 h-10 rounded border bg-white flex items-center justify-center flex-shrink-0">
+                        <QrCode className="w-5 h-5 text-gray-400" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600">
+                        {entry.name}
+                      </p>
+                      {entry.name !== entry.label && (
+                        <p className="text-xs text-gray-600 truncate">{entry.label}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-1 mt-0.5">
+                        <span className="text-xs text-gray-500">
+                          {new Date(entry.updatedAt).toLocaleDateString()}
+                        </span>
+                        {entry.tags.map((tag) => (
+                          <Badge key={tag} variant="outline" className="text-[10px] px-1.5 py-0">{tag}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </button>
+                  <div className="flex flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-2"
+                      onClick={() => onUpdate({ ...entry, favorite: !entry.favorite })}
+                      title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                      <Star className={`w-4 h-4 ${entry.favorite ? 'fill-yellow-400 text-yellow-500' : 'text-gray-400'}`} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-2 text-gray-400 hover:text-gray-700"
+                      onClick={() => startEditing(entry)}
+                      title="Rename and tag"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-2 text-gray-400 hover:text-red-600"
+                      onClick={() => onDelete(entry)}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {index < visible.length - 1 && <Separator className="mt-2" />}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <HistoryImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        existing={entries}
+        onImported={onImported}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,77 @@
+import { Badge } from './ui/badge'
+import { LOGO_SOURCE_LABELS, type LoadedLogoCandidate } from '../lib/logo-resolver'
+import { Loader2 } from 'lucide-react'
+
+// Below this many pixels an icon looks blurry at the default logo size
+const LOW_RESOLUTION = 64
+
+interface LogoCandidatePickerProps {
+  // Best first, as ranked by the resolver
+  candidates: LoadedLogoCandidate[]
+  // `src` of the chosen candidate
+  selected: string
+  onSelect: (candidate: LoadedLogoCandidate) => void
+  isDetecting: boolean
+}
+
+function describeResolution(candidate: LoadedLogoCandidate) {
+  if (candidate.type === 'image/svg+xml') return 'Vector'
+  return candidate.width && candidate.height ? `${candidate.width}×${candidate.height}` : 'Unknown size'
+}
+
+export function LogoCandidatePicker({ candidates, selected, onSelect, isDetecting }: LogoCandidatePickerProps) {
+  return (
+    <div className="space-y-3 p-2 bg-white rounded border">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-600">
+          {isDetecting
+            ? 'Looking for logos on the page...'
+            : candidates.length > 0
+              ? `${candidates.length} ${candidates.length === 1 ? 'logo' : 'logos'} found on the page`
+              : 'No logo found on the page'}
+        </span>
+        {isDetecting && <Loader2 className="w-3 h-3 animate-spin" />}
+      </div>
+
+      {/* Candidate gallery */}
+      {candidates.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {candidates.map((candidate) => {
+            const lowResolution = candidate.type !== 'image/svg+xml'
+              && Math.max(candidate.width, candidate.height) < LOW_RESOLUTION
+            return (
+              <button
+                key={candidate.url}
+                type="button"
+                onClick={() => onSelect(candidate)}
+                className={`w-full flex items-center gap-2 p-1.5 rounded border text-left transition-colors ${
+                  candidate.src === selected ? 'border-blue-600 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+                }`}
+              >
+                <img
+                  src={candidate.src}
+                  alt=""
+                  className="w-10 h-10 p-1 rounded border bg-white object-contain flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs font-medium text-gray-700">{LOGO_SOURCE_LABELS[candidate.source]}</span>
+                    <span className="text-xs text-gray-500">{describeResolution(candidate)}</span>
+                    {lowResolution && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-amber-700 border-amber-200">
+                        Low-res
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-[11px] text-gray-500 font-mono truncate" title={candidate.url}>
+                    {candidate.url}
+                  </p>
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
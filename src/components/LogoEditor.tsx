@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Switch } from './ui/switch'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ColorField } from './ColorOptions'
+import {
+  DEFAULT_LOGO_EDITS,
+  editLogo,
+  isDefaultEdits,
+  LOGO_FIT_LABELS,
+  LOGO_RECOLOR_LABELS,
+  LOGO_ZOOM_RANGE,
+  type LogoEdits,
+  type LogoFit,
+  type LogoRecolor
+} from '../lib/logo-edit'
+import { ChevronDown, ChevronUp, RotateCcw, SlidersHorizontal } from 'lucide-react'
+
+interface EditSliderProps {
+  label: string
+  value: number
+  display: string
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+  disabled?: boolean
+}
+
+function EditSlider({ label, value, display, min, max, step, onChange, disabled }: EditSliderProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-600">{label}</span>
+        <span className="text-xs text-gray-500">{display}</span>
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        step={step}
+        value={[value]}
+        onValueChange={([next]) => onChange(next)}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
+
+interface LogoEditorProps {
+  // Unedited logo, as uploaded or detected
+  src: string
+  edits: LogoEdits
+  onChange: (edits: LogoEdits) => void
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+export function LogoEditor({ src, edits, onChange }: LogoEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [preview, setPreview] = useState(src)
+  const update = (patch: Partial<LogoEdits>) => onChange({ ...edits, ...patch })
+
+  // Edits render asynchronously; ignore results for edits that have since changed
+  useEffect(() => {
+    let cancelled = false
+    editLogo(src, edits).then((result) => {
+      if (!cancelled) setPreview(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [src, edits])
+
+  return (
+    <div className="space-y-3 p-2 bg-white rounded border">
+      <div className="flex items-center gap-2">
+        <div className="w-10 h-10 rounded border bg-gray-100 flex-shrink-0">
+          <img src={preview} alt="Edited logo preview" className="w-full h-full object-contain" />
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="flex-1 flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+          {isDefaultEdits(edits) ? 'Edit logo' : 'Logo edited'}
+          {open ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+        {!isDefaultEdits(edits) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-gray-500"
+            onClick={() => onChange(DEFAULT_LOGO_EDITS)}
+            title="Reset edits"
+          >
+            <RotateCcw className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {open && (
+        <div className="space-y-3">
+          {/* Crop */}
+          <div className="space-y-1">
+            <span className="text-xs text-gray-600">Fit</span>
+            <Select value={edits.fit} onValueChange={(fit) => update({ fit: fit as LogoFit })}>
+              <SelectTrigger className="h-9 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LOGO_FIT_LABELS) as LogoFit[]).map((fit) => (
+                  <SelectItem key={fit} value={fit}>{LOGO_FIT_LABELS[fit]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <EditSlider
+            label="Zoom"
+            value={edits.zoom}
+            display={percent(edits.zoom)}
+            min={LOGO_ZOOM_RANGE.min}
+            max={LOGO_ZOOM_RANGE.max}
+            step={0.05}
+            onChange={(zoom) => update({ zoom })}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <EditSlider
+              label="Pan left/right"
+              value={edits.offsetX}
+              display={percent(edits.offsetX)}
+              min={-1}
+              max={1}
+              step={0.05}
+              onChange={(offsetX) => update({ offsetX })}
+              disabled={edits.zoom === 1}
+            />
+            <EditSlider
+              label="Pan up/down"
+              value={edits.offsetY}
+              display={percent(edits.offsetY)}
+              min={-1}
+              max={1}
+              step={0.05}
+              onChange={(offsetY) => update({ offsetY })}
+              disabled={edits.zoom === 1}
+            />
+          </div>
+          <EditSlider
+            label="Rounded corners"
+            value={edits.cornerRadius}
+            display={percent(edits.cornerRadius)}
+            min={0}
+            max={0.5}
+            step={0.01}
+            onChange={(cornerRadius) => update({ cornerRadius })}
+          />
+
+          {/* Background removal */}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-600">Remove background color</span>
+            <Switch
+              checked={edits.keyColor !== null}
+              onCheckedChange={(checked) => update({ keyColor: checked ? '#ffffff' : null })}
+            />
+          </div>
+          {edits.keyColor !== null && (
+            <div className="grid grid-cols-2 gap-3">
+              <ColorField
+                label="Background"
+                value={edits.keyColor}
+                onChange={(keyColor) => update({ keyColor })}
+              />
+              <EditSlider
+                label="Tolerance"
+                value={edits.keyTolerance}
+                display={percent(edits.keyTolerance)}
+                min={0}
+                max={0.5}
+                step={0.01}
+                onChange={(keyTolerance) => update({ keyTolerance })}
+              />
+            </div>
+          )}
+
+          {/* Recolor */}
+          <div className="space-y-1">
+            <span className="text-xs text-gray-600">Colors</span>
+            <Select value={edits.recolor} onValueChange={(recolor) => update({ recolor: recolor as LogoRecolor })}>
+              <SelectTrigger className="h-9 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LOGO_RECOLOR_LABELS) as LogoRecolor[]).map((recolor) => (
+                  <SelectItem key={recolor} value={recolor}>{LOGO_RECOLOR_LABELS[recolor]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {edits.recolor === 'tint' && (
+            <ColorField
+              label="Tint color"
+              value={edits.tintColor}
+              onChange={(tintColor) => update({ tintColor })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
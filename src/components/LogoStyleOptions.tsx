@@ -0,0 +1,124 @@
+import { Switch } from './ui/switch'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ColorField } from './ColorOptions'
+import { LOGO_BORDER_MAX, LOGO_PAD_MAX } from '../lib/design'
+import { LOGO_SCALE_RANGE, LOGO_SHAPE_LABELS, type LogoOptions, type LogoShape } from '../lib/qr-logo'
+
+interface SliderFieldProps {
+  label: string
+  value: number
+  display: string
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+  disabled?: boolean
+}
+
+function SliderField({ label, value, display, min, max, step, onChange, disabled }: SliderFieldProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-600">{label}</span>
+        <span className="text-xs text-gray-500">{display}</span>
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        step={step}
+        value={[value]}
+        onValueChange={([next]) => onChange(next)}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
+
+interface LogoStyleOptionsProps {
+  options: LogoOptions
+  onChange: (options: LogoOptions) => void
+}
+
+// Size, outline and pad of the logo; rendered inside the logo options box
+export function LogoStyleOptions({ options, onChange }: LogoStyleOptionsProps) {
+  const update = (patch: Partial<LogoOptions>) => onChange({ ...options, ...patch })
+  const hasPad = options.shape !== 'none'
+
+  return (
+    <div className="space-y-3">
+      <SliderField
+        label="Logo size"
+        value={Math.round(options.scale * 100)}
+        display={`${Math.round(options.scale * 100)}%`}
+        min={LOGO_SCALE_RANGE.min * 100}
+        max={LOGO_SCALE_RANGE.max * 100}
+        step={1}
+        onChange={(percent) => update({ scale: percent / 100 })}
+      />
+
+      <div className="space-y-1">
+        <span className="text-xs text-gray-600">Shape</span>
+        <Select value={options.shape} onValueChange={(shape) => update({ shape: shape as LogoShape })}>
+          <SelectTrigger className="h-9 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(LOGO_SHAPE_LABELS) as LogoShape[]).map((shape) => (
+              <SelectItem key={shape} value={shape}>{LOGO_SHAPE_LABELS[shape]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <ColorField
+          label="Pad color"
+          value={options.padColor}
+          onChange={(padColor) => update({ padColor })}
+          disabled={!hasPad}
+        />
+        <ColorField
+          label="Border color"
+          value={options.borderColor}
+          onChange={(borderColor) => update({ borderColor })}
+          disabled={!hasPad || options.borderWidth === 0}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <SliderField
+          label="Pad"
+          value={options.padSize}
+          display={`${options.padSize}px`}
+          min={0}
+          max={LOGO_PAD_MAX}
+          step={1}
+          onChange={(padSize) => update({ padSize })}
+          disabled={!hasPad}
+        />
+        <SliderField
+          label="Border"
+          value={options.borderWidth}
+          display={`${options.borderWidth}px`}
+          min={0}
+          max={LOGO_BORDER_MAX}
+          step={1}
+          onChange={(borderWidth) => update({ borderWidth })}
+          disabled={!hasPad}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-xs text-gray-600">Clear modules under logo</span>
+          <p className="text-[11px] text-gray-500">Leaves a clean gap instead of covering the pattern</p>
+        </div>
+        <Switch
+          checked={options.excavate}
+          onCheckedChange={(excavate) => update({ excavate })}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  getPayloadFields,
+  type PayloadField,
+  type PayloadValues,
+  type StructuredPayloadType
+} from '../lib/payloads'
+
+interface PayloadFormProps {
+  type: StructuredPayloadType
+  values: PayloadValues
+  errors: Record<string, string>
+  onChange: (values: PayloadValues) => void
+  disabled?: boolean
+}
+
+export function PayloadForm({ type, values, errors, onChange, disabled }: PayloadFormProps) {
+  const setValue = (name: string, value: string | boolean) => onChange({ ...values, [name]: value })
+
+  const renderControl = (field: PayloadField) => {
+    const value = values[field.name]
+
+    switch (field.kind) {
+      case 'checkbox':
+        return (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-700">{field.label}</span>
+            <Switch
+              checked={value === true}
+              onCheckedChange={(checked) => setValue(field.name, checked)}
+              disabled={disabled}
+            />
+          </div>
+        )
+      case 'select':
+        return (
+          <Select
+            value={String(value)}
+            onValueChange={(next) => setValue(field.name, next)}
+            disabled={disabled}
+          >
+            <SelectTrigger id={`payload-${field.name}`} className="h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      case 'textarea':
+        return (
+          <Textarea
+            id={`payload-${field.name}`}
+            value={String(value ?? '')}
+            placeholder={field.placeholder}
+            onChange={(e) => setValue(field.name, e.target.value)}
+            disabled={disabled}
+            rows={3}
+          />
+        )
+      default:
+        return (
+          <Input
+            id={`payload-${field.name}`}
+            type={field.kind === 'datetime' ? 'datetime-local' : field.kind === 'number' ? 'number' : field.kind === 'password' ? 'password' : 'text'}
+            step={field.kind === 'number' ? 'any' : undefined}
+            value={String(value ?? '')}
+            placeholder={field.placeholder}
+            onChange={(e) => setValue(field.name, e.target.value)}
+            disabled={disabled}
+            className="h-10"
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {getPayloadFields(type).map((field) => (
+        <div key={field.name} className="space-y-1">
+          {field.kind !== 'checkbox' && (
+            <label htmlFor={`payload-${field.name}`} className="text-sm font-medium text-gray-700">
+              {field.label}
+            </label>
+          )}
+          {renderControl(field)}
+          {errors[field.name] && (
+            <p className="text-xs text-red-600">{errors[field.name]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
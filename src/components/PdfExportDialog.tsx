@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { useToast } from '../hooks/use-toast'
+import { createQRPdf, PDF_TEMPLATES, type PdfTemplateId } from '../lib/qr-pdf'
+import { FileText, Loader2 } from 'lucide-react'
+
+interface PdfExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  caption: string
+  renderImage: (pixelSize: number) => Promise<string>
+}
+
+export function PdfExportDialog({ open, onOpenChange, caption, renderImage }: PdfExportDialogProps) {
+  const [template, setTemplate] = useState<PdfTemplateId>('a4')
+  const [marginMm, setMarginMm] = useState(String(PDF_TEMPLATES.a4.defaultMarginMm))
+  const [bleedMm, setBleedMm] = useState('3')
+  const [showCaption, setShowCaption] = useState(true)
+  const [cropMarks, setCropMarks] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const { toast } = useToast()
+
+  const isLabelSheet = PDF_TEMPLATES[template].kind === 'labels'
+
+  const selectTemplate = (id: PdfTemplateId) => {
+    setTemplate(id)
+    setMarginMm(String(PDF_TEMPLATES[id].defaultMarginMm))
+  }
+
+  const exportPdf = async () => {
+    setIsExporting(true)
+
+    try {
+      const blob = await createQRPdf({
+        template,
+        marginMm: parseFloat(marginMm) || 0,
+        bleedMm: parseFloat(bleedMm) || 0,
+        caption: showCaption ? caption : '',
+        cropMarks
+      }, renderImage)
+
+      const objectUrl = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.download = `qr-code-${template}-${Date.now()}.pdf`
+      link.href = objectUrl
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+
+      toast({
+        title: "Downloaded!",
+        description: "Print-ready PDF saved to your device"
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('PDF export failed:', error)
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Unable to create PDF file",
+        variant: "destructive"
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-600" />
+            Export PDF
+          </DialogTitle>
+          <DialogDescription>
+            Place the QR code on a print layout.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Layout</label>
+            <Select value={template} onValueChange={(value) => selectTemplate(value as PdfTemplateId)}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PDF_TEMPLATES) as PdfTemplateId[]).map((id) => (
+                  <SelectItem key={id} value={id}>{PDF_TEMPLATES[id].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Margin (mm)</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={marginMm}
+                onChange={(e) => setMarginMm(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Bleed (mm)</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={bleedMm}
+                onChange={(e) => setBleedMm(e.target.value)}
+                disabled={isLabelSheet}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <span className="text-sm text-gray-700">Caption</span>
+              <p className="text-xs text-gray-500 truncate">{caption}</p>
+            </div>
+            <Switch checked={showCaption} onCheckedChange={setShowCaption} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-700">Crop marks</span>
+            <Switch checked={cropMarks} onCheckedChange={setCropMarks} disabled={isLabelSheet} />
+          </div>
+
+          {isLabelSheet && (
+            <p className="text-xs text-gray-500">
+              Label sheets are pre-cut, so bleed and crop marks are not added. Margin applies inside each label.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={exportPdf}
+            disabled={isExporting}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isExporting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <FileText className="w-4 h-4 mr-2" />
+                Export PDF
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from './ui/select'
+import { useToast } from '../hooks/use-toast'
+import { serializePreset, type DesignPreset } from '../lib/presets'
+import { Copy, Download, Palette, Plus, Star, Trash2 } from 'lucide-react'
+
+interface PresetOptionsProps {
+  presets: DesignPreset[]
+  // Last applied preset, '' when none
+  selectedId: string
+  defaultId: string | null
+  onApply: (preset: DesignPreset) => void
+  onSave: (name: string) => void
+  onDuplicate: (preset: DesignPreset) => void
+  onToggleDefault: (preset: DesignPreset) => void
+  onDelete: (preset: DesignPreset) => void
+}
+
+export function PresetOptions({
+  presets,
+  selectedId,
+  defaultId,
+  onApply,
+  onSave,
+  onDuplicate,
+  onToggleDefault,
+  onDelete
+}: PresetOptionsProps) {
+  const [isNaming, setIsNaming] = useState(false)
+  const [draftName, setDraftName] = useState('')
+  const { toast } = useToast()
+
+  const selected = presets.find((preset) => preset.id === selectedId) ?? null
+  const builtInPresets = presets.filter((preset) => preset.builtIn)
+  const userPresets = presets.filter((preset) => !preset.builtIn)
+
+  const save = () => {
+    if (!draftName.trim()) return
+    onSave(draftName)
+    setDraftName('')
+    setIsNaming(false)
+  }
+
+  // Writes the preset to a JSON file the qrgen CLI can read with --preset
+  const exportPreset = (preset: DesignPreset) => {
+    const objectUrl = URL.createObjectURL(new Blob([serializePreset(preset)], { type: 'application/json' }))
+    const slug = preset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'preset'
+    const link = document.createElement('a')
+    link.download = `qr-preset-${slug}.json`
+    link.href = objectUrl
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+
+    toast({
+      title: "Preset Exported!",
+      description: `"${preset.name}" saved as a preset file`
+    })
+  }
+
+  const renderItem = (preset: DesignPreset) => (
+    <SelectItem key={preset.id} value={preset.id}>
+      {preset.name}{preset.id === defaultId && ' (default)'}
+    </SelectItem>
+  )
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Palette className="w-4 h-4 text-gray-600" />
+        <span className="text-sm font-medium text-gray-700">Presets</span>
+      </div>
+
+      <div className="flex gap-2">
+        <Select
+          value={selectedId}
+          onValueChange={(id) => {
+            const preset = presets.find((item) => item.id === id)
+            if (preset) onApply(preset)
+          }}
+        >
+          <SelectTrigger className="h-9 bg-white flex-1">
+            <SelectValue placeholder="Apply a preset" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>Templates</SelectLabel>
+              {builtInPresets.map(renderItem)}
+            </SelectGroup>
+            {userPresets.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>My presets</SelectLabel>
+                {userPresets.map(renderItem)}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 px-2 bg-white"
+          onClick={() => selected && onToggleDefault(selected)}
+          disabled={!selected}
+          title={selected?.id === defaultId ? 'Stop using as default' : 'Use as default'}
+        >
+          <Star className={`w-4 h-4 ${selected && selected.id === defaultId ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 px-2 bg-white"
+          onClick={() => selected && onDuplicate(selected)}
+          disabled={!selected}
+          title="Duplicate preset"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 px-2 bg-white"
+          onClick={() => selected && exportPreset(selected)}
+          disabled={!selected}
+          title="Export preset file"
+        >
+          <Download className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 px-2 bg-white hover:text-red-600"
+          onClick={() => selected && onDelete(selected)}
+          disabled={!selected || selected.builtIn}
+          title="Delete preset"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {isNaming ? (
+        <div className="flex gap-2">
+          <Input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            placeholder="Preset name"
+            className="h-9 bg-white"
+            autoFocus
+          />
+          <Button size="sm" className="h-9 bg-blue-600 hover:bg-blue-700" onClick={save} disabled={!draftName.trim()}>
+            Save
+          </Button>
+          <Button variant="ghost" size="sm" className="h-9" onClick={() => setIsNaming(false)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button variant="ghost" size="sm" className="w-full text-gray-600" onClick={() => setIsNaming(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Save current style as preset
+        </Button>
+      )}
+    </div>
+  )
+}
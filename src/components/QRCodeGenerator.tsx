@@ -1,151 +1,245 @@
-import { useState, useRef, useEffect, useCallback } from 'react'
-import QRCode from 'qrcode'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
-import { Separator } from './ui/separator'
 import { Switch } from './ui/switch'
+import { PdfExportDialog } from './PdfExportDialog'
+import { ColorOptions } from './ColorOptions'
+import { ShapeOptions } from './ShapeOptions'
+import { PayloadForm } from './PayloadForm'
+import { BatchDialog } from './BatchDialog'
+import { ErrorCorrectionOptions } from './ErrorCorrectionOptions'
+import { LogoCandidatePicker } from './LogoCandidatePicker'
+import { LogoEditor } from './LogoEditor'
+import { HistoryLibrary } from './HistoryLibrary'
+import { PresetOptions } from './PresetOptions'
+import { LogoStyleOptions } from './LogoStyleOptions'
+import { ShortLinkEditor } from './ShortLinkEditor'
+import { ScanAnalytics } from './ScanAnalytics'
+import { UtmBuilder } from './UtmBuilder'
+import { CapacityMeter } from './CapacityMeter'
 import { useToast } from '../hooks/use-toast'
+import { renderQR } from '../lib/qr-render'
+import { createThumbnail, toEmbeddableDataUrl } from '../lib/image'
+import type { LogoOptions } from '../lib/qr-logo'
+import { detectLogoCandidates, type LoadedLogoCandidate } from '../lib/logo-resolver'
+import { findLogo, pickLogoCandidate, saveLogoChoice } from '../lib/logo-choices'
+import { DEFAULT_LOGO_EDITS, editLogo, type LogoEdits } from '../lib/logo-edit'
+import { normalizeUrl } from '../lib/url'
+import {
+  ensureShortLink,
+  findShortLink,
+  findShortLinkTo,
+  isPlaceholderCode,
+  loadCreateToken,
+  loadShortLinks,
+  PREVIEW_SLUG,
+  saveCreateToken,
+  shortLinkUrl,
+  type ShortLink
+} from '../lib/short-links'
+import type { BatchItemResult, BatchRow } from '../lib/batch'
+import { renderQRImage } from '../lib/qr-worker'
+import { verifyQRImage, type ScanVerification } from '../lib/qr-verify'
+import { assessContrast, type QRColors } from '../lib/qr-colors'
+import type { QRStyle } from '../lib/qr-shapes'
+import { resolveErrorCorrection, type ErrorCorrectionLevel, type ErrorCorrectionSetting } from '../lib/qr-ecc'
+import { describeOverflow, measureQRCapacity } from '../lib/qr-capacity'
+import {
+  DEFAULT_QR_DESIGN,
+  designToSearchParams,
+  getDesignStyle,
+  QR_MARGINS,
+  readDesignParams,
+  type DesignStyle,
+  type QRDesign
+} from '../lib/design'
+import {
+  BUILT_IN_PRESETS,
+  createPreset,
+  duplicatePreset,
+  findPreset,
+  loadDefaultPresetId,
+  loadPresets,
+  saveDefaultPresetId,
+  savePresets,
+  type DesignPreset
+} from '../lib/presets'
+import {
+  clearHistory,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  isSameDesign,
+  loadHistory,
+  putHistoryEntry,
+  type HistoryEntry
+} from '../lib/history'
+import {
+  encodePayload,
+  getPayloadDefaults,
+  PAYLOAD_TYPE_LABELS,
+  type PayloadType,
+  type PayloadValues,
+  type StructuredPayloadType
+} from '../lib/payloads'
 import { 
   Download, 
   Copy, 
+  Eye,
+  Eraser,
   Link, 
+  Link2,
   QrCode, 
   Loader2, 
   Check,
-  History,
-  Trash2,
-  Image,
+  Image as ImageIcon,
   Upload,
-  Globe
+  FileCode,
+  FileText,
+  FileArchive,
+  Globe,
+  Share2,
+  ShieldAlert,
+  ShieldCheck
 } from 'lucide-react'
 
-interface RecentUrl {
-  url: string
-  timestamp: number
+// What the current preview was generated from, so exports can re-render it
+interface RenderedQr {
+  text: string
+  // Human-readable summary of the payload, e.g. the URL or "Wi-Fi: Office"
+  label: string
+  size: number
+  margin: number
+  logoUrl: string
+  logoOptions: LogoOptions
+  colors: QRColors
+  style: QRStyle
+  errorCorrectionLevel: ErrorCorrectionLevel
+  // Form settings at generation time, for "Copy link to this design"
+  design: QRDesign
+  // Set for dynamic codes, whose `text` is this link's short URL
+  shortLink: ShortLink | null
 }
 
 export function QRCodeGenerator() {
-  const [url, setUrl] = useState('')
+  const [searchParams] = useSearchParams()
+  // A shared design link pre-fills the form once, on load
+  const [linkedDesign] = useState(() => readDesignParams(searchParams))
+  const [userPresets, setUserPresets] = useState<DesignPreset[]>(loadPresets)
+  const [defaultPresetId, setDefaultPresetId] = useState(loadDefaultPresetId)
+  // Without a link, the form starts from the default preset
+  const [startupPreset] = useState(() => linkedDesign ? null : findPreset([...BUILT_IN_PRESETS, ...userPresets], defaultPresetId))
+  const [selectedPresetId, setSelectedPresetId] = useState(startupPreset?.id ?? '')
+  const initialDesign = linkedDesign ?? { ...DEFAULT_QR_DESIGN, ...startupPreset?.style }
+  const [url, setUrl] = useState(initialDesign.url)
+  const [dynamicLink, setDynamicLink] = useState(initialDesign.dynamicLink)
+  const [createToken, setCreateToken] = useState(loadCreateToken)
+  const [stripTracking, setStripTracking] = useState(false)
+  const [shortLinks, setShortLinks] = useState<ShortLink[]>(loadShortLinks)
+  const [payloadType, setPayloadType] = useState<PayloadType>(initialDesign.payloadType)
+  const [payloadValues, setPayloadValues] = useState<Partial<Record<StructuredPayloadType, PayloadValues>>>(
+    initialDesign.payloadType === 'url' ? {} : { [initialDesign.payloadType]: initialDesign.payloadValues }
+  )
+  const [payloadErrors, setPayloadErrors] = useState<Record<string, string>>({})
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState('')
+  const [renderedQr, setRenderedQr] = useState<RenderedQr | null>(null)
+  const [scanVerification, setScanVerification] = useState<ScanVerification | null>(null)
+  const [allowUnverifiedExport, setAllowUnverifiedExport] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
-  const [qrSize, setQrSize] = useState('256')
-  const [recentUrls, setRecentUrls] = useState<RecentUrl[]>([])
+  const [livePreview, setLivePreview] = useState(true)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [qrSize, setQrSize] = useState(initialDesign.size)
+  const [margin, setMargin] = useState(initialDesign.margin)
+  const [colors, setColors] = useState<QRColors>(initialDesign.colors)
+  const [qrStyle, setQrStyle] = useState<QRStyle>(initialDesign.style)
+  const [errorCorrection, setErrorCorrection] = useState<ErrorCorrectionSetting>(initialDesign.errorCorrection)
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [reopenPending, setReopenPending] = useState(false)
   const [copied, setCopied] = useState(false)
-  const [logoEnabled, setLogoEnabled] = useState(false)
-  const [logoFile, setLogoFile] = useState<File | null>(null)
-  const [logoPreview, setLogoPreview] = useState<string>('')
-  const [autoDetectLogo, setAutoDetectLogo] = useState(true)
-  const [detectedFavicon, setDetectedFavicon] = useState<string>('')
+  const [pdfDialogOpen, setPdfDialogOpen] = useState(false)
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false)
+  const [logoEnabled, setLogoEnabled] = useState(initialDesign.logoEnabled)
+  const [logoPreview, setLogoPreview] = useState<string>(startupPreset?.logoUrl ?? '')
+  const [autoDetectLogo, setAutoDetectLogo] = useState(initialDesign.autoDetectLogo)
+  const [logoOptions, setLogoOptions] = useState<LogoOptions>(initialDesign.logo)
+  // Logos found on the page at `pageUrl`, best first, and the one in use
+  const [logoCandidates, setLogoCandidates] = useState<{ pageUrl: string; items: LoadedLogoCandidate[] }>({ pageUrl: '', items: [] })
+  const [selectedLogo, setSelectedLogo] = useState('')
+  // Edits to the detected and the uploaded logo; detected ones are remembered per domain
+  const [logoEdits, setLogoEdits] = useState<LogoEdits>(DEFAULT_LOGO_EDITS)
+  const [uploadEdits, setUploadEdits] = useState<LogoEdits>(DEFAULT_LOGO_EDITS)
   const [isDetectingLogo, setIsDetectingLogo] = useState(false)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const linkGeneratedRef = useRef(false)
+  const logoDetectionRef = useRef(0)
+  // Bumped by every render; a render whose id is no longer current drops its result
+  const renderIdRef = useRef(0)
+  // Set while a Generate runs. Previews wait it out instead of superseding it, since
+  // the Generate itself (e.g. detecting a logo) changes the options previews watch.
+  const generatingRef = useRef(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
+  const contrast = assessContrast(
+    colors,
+    [qrStyle.finderFrameColor, qrStyle.finderPupilColor].filter((color): color is string => color !== null)
+  )
+  // Exports stay locked until the preview decodes back to its input, unless the user overrides
+  const verificationBlocked = scanVerification !== null && scanVerification.status !== 'verified' && !allowUnverifiedExport
+  // ...and, for dynamic codes, until the code holds a real short link
+  const awaitingShortLink = renderedQr !== null &&
+    isPlaceholderCode({ dynamicLink: renderedQr.design.dynamicLink, shortLink: renderedQr.shortLink })
+  const exportBlocked = verificationBlocked || awaitingShortLink
 
-  // Load recent URLs from localStorage on component mount
+  // Load the history library on component mount
   useEffect(() => {
-    const saved = localStorage.getItem('qr-recent-urls')
-    if (saved) {
-      try {
-        setRecentUrls(JSON.parse(saved))
-      } catch (e) {
-        console.error('Failed to parse recent URLs:', e)
-      }
-    }
+    loadHistory()
+      .then(setHistory)
+      .catch((e) => console.error('Failed to load history:', e))
   }, [])
 
-  const isValidUrl = (string: string) => {
-    try {
-      new URL(string)
-      return true
-    } catch (_) {
-      return false
-    }
-  }
+  // Finds the page's logos and selects the one remembered for the domain, or the
+  // best. Only the latest detection updates the form, so a slow page can't
+  // replace the logos of a newer URL.
+  const detectLogo = useCallback(async (urlString: string) => {
+    if (!normalizeUrl(urlString).ok) return null
 
-  const detectFavicon = useCallback(async (urlString: string) => {
-    if (!isValidUrl(urlString)) return null
-    
+    const requestId = ++logoDetectionRef.current
     setIsDetectingLogo(true)
-    console.log('🔍 Starting favicon detection for:', urlString)
-    
+    console.log('🔍 Starting logo detection for:', urlString)
+
     try {
-      const urlObj = new URL(urlString)
-      const domain = urlObj.hostname
-      
-      // Multiple favicon services and methods for better reliability
-      const faviconSources = [
-        // Google's favicon service (most reliable)
-        `https://www.google.com/s2/favicons?domain=${domain}&sz=64`,
-        // Alternative favicon services
-        `https://icons.duckduckgo.com/ip3/${domain}.ico`,
-        `https://www.google.com/s2/favicons?domain=${domain}&sz=32`,
-        // Direct favicon URLs
-        `${urlObj.protocol}//${domain}/favicon.ico`,
-        `${urlObj.protocol}//${domain}/favicon.png`,
-        `${urlObj.protocol}//${domain}/apple-touch-icon.png`
-      ]
-      
-      console.log('🔍 Testing favicon sources:', faviconSources)
-      
-      for (let i = 0; i < faviconSources.length; i++) {
-        const faviconUrl = faviconSources[i]
-        console.log(`🔍 Testing favicon ${i + 1}/${faviconSources.length}:`, faviconUrl)
-        
-        try {
-          // Test if favicon loads successfully
-          const isAccessible = await new Promise<boolean>((resolve) => {
-            const testImg = new Image()
-            testImg.crossOrigin = 'anonymous'
-            
-            const timeoutId = setTimeout(() => {
-              console.log('⏰ Favicon test timeout for:', faviconUrl)
-              resolve(false)
-            }, 3000)
-            
-            testImg.onload = () => {
-              clearTimeout(timeoutId)
-              console.log('✅ Favicon loaded successfully:', faviconUrl)
-              resolve(true)
-            }
-            
-            testImg.onerror = () => {
-              clearTimeout(timeoutId)
-              console.log('❌ Favicon failed to load:', faviconUrl)
-              resolve(false)
-            }
-            
-            testImg.src = faviconUrl
-          })
-          
-          if (isAccessible) {
-            console.log('🎉 Using favicon:', faviconUrl)
-            setDetectedFavicon(faviconUrl)
-            return faviconUrl
-          }
-        } catch (error) {
-          console.log('❌ Error testing favicon:', faviconUrl, error)
-          continue
-        }
+      const items = await detectLogoCandidates(urlString)
+      const picked = pickLogoCandidate(urlString, items)
+      if (requestId === logoDetectionRef.current) {
+        setLogoCandidates({ pageUrl: urlString, items })
+        setSelectedLogo(picked?.candidate.src ?? '')
+        setLogoEdits(picked?.edits ?? DEFAULT_LOGO_EDITS)
       }
-      
-      // If no favicon found, use Google's service as fallback (it usually works even if test fails)
-      const fallbackFavicon = `https://www.google.com/s2/favicons?domain=${domain}&sz=64`
-      console.log('🔄 Using fallback favicon:', fallbackFavicon)
-      setDetectedFavicon(fallbackFavicon)
-      return fallbackFavicon
-      
+      return picked ? { src: picked.candidate.src, edits: picked.edits } : null
     } catch (error) {
-      console.error('❌ Favicon detection failed:', error)
-      setDetectedFavicon('')
+      console.error('❌ Logo detection failed:', error)
+      if (requestId === logoDetectionRef.current) {
+        setLogoCandidates({ pageUrl: urlString, items: [] })
+        setSelectedLogo('')
+        setLogoEdits(DEFAULT_LOGO_EDITS)
+      }
       return null
     } finally {
-      setIsDetectingLogo(false)
+      if (requestId === logoDetectionRef.current) setIsDetectingLogo(false)
     }
   }, [])
 
+  // Remembers the pick for the page's domain so later codes for the site reuse it
+  const chooseLogo = (candidate: LoadedLogoCandidate, edits: LogoEdits) => {
+    setSelectedLogo(candidate.src)
+    setLogoEdits(edits)
+    saveLogoChoice(logoCandidates.pageUrl, { url: candidate.url, edits })
+  }
+  const selectedCandidate = logoCandidates.items.find((candidate) => candidate.src === selectedLogo) ?? null
+
   const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
@@ -159,243 +253,294 @@ export function QRCodeGenerator() {
       return
     }
 
-    setLogoFile(file)
     const reader = new FileReader()
     reader.onload = (e) => {
       setLogoPreview(e.target?.result as string)
+      setUploadEdits(DEFAULT_LOGO_EDITS)
     }
     reader.readAsDataURL(file)
   }
 
-  const addToRecentUrls = (newUrl: string) => {
-    const updated = [
-      { url: newUrl, timestamp: Date.now() },
-      ...recentUrls.filter(item => item.url !== newUrl)
-    ].slice(0, 5) // Keep only 5 most recent
-    
-    setRecentUrls(updated)
-    localStorage.setItem('qr-recent-urls', JSON.stringify(updated))
+  // Saves the code to the library, or refreshes the entry for an identical design
+  const addToHistory = async (fields: Pick<HistoryEntry, 'label' | 'text' | 'design' | 'logoUrl'>, dataUrl: string) => {
+    try {
+      const thumbnail = await createThumbnail(dataUrl)
+      const existing = history.find((entry) => isSameDesign(entry, fields.text, fields.design))
+      const entry = existing
+        ? { ...existing, logoUrl: fields.logoUrl, thumbnail, updatedAt: Date.now() }
+        : createHistoryEntry({ ...fields, thumbnail })
+
+      await putHistoryEntry(entry)
+      setHistory((current) => [entry, ...current.filter((item) => item.id !== entry.id)])
+    } catch (e) {
+      console.error('Failed to save to history:', e)
+    }
   }
 
-  const createQRWithLogo = async (qrDataUrl: string, logoUrl: string): Promise<string> => {
-    console.log('🎨 Starting QR + Logo integration')
-    console.log('📄 QR Data URL length:', qrDataUrl.length)
-    console.log('🖼️ Logo URL:', logoUrl)
-    
-    try {
-      // Check if canvas is supported
-      if (typeof document === 'undefined' || !document.createElement) {
-        throw new Error('Canvas not supported')
-      }
+  const renderBaseQRCode = async (
+    text: string,
+    size: number,
+    quietZone: number,
+    qrColors: QRColors,
+    style: QRStyle,
+    errorCorrectionLevel: ErrorCorrectionLevel
+  ) => {
+    const { dataUrl } = await renderQRImage(text, {
+      width: size,
+      margin: quietZone,
+      colors: qrColors,
+      style,
+      errorCorrection: errorCorrectionLevel
+    })
+    return dataUrl
+  }
 
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')
-      
-      if (!ctx) {
-        throw new Error('Canvas context not available')
+  // Falls back to H, the most forgiving level, when the text can't be measured;
+  // rendering then reports content that is too long.
+  const pickErrorCorrection = (text: string, hasLogo: boolean) =>
+    resolveErrorCorrection(text, errorCorrection, parseInt(qrSize), margin, hasLogo ? logoOptions : null)?.level ?? 'H'
+
+  // Renders the form's current design with the logo on top. The logo is drawn
+  // over a separate render because excavation changes the modules underneath.
+  // Returns null when the logo image can't be loaded.
+  const renderWithLogo = async (text: string, errorCorrectionLevel: ErrorCorrectionLevel, logoUrl: string) => {
+    const size = parseInt(qrSize)
+    const { dataUrl, logoApplied } = await renderQRImage(text, {
+      width: size,
+      margin,
+      colors,
+      style: qrStyle,
+      errorCorrection: errorCorrectionLevel
+    }, { src: logoUrl, options: logoOptions })
+    return logoApplied ? dataUrl : null
+  }
+
+  // Re-renders the current preview at print resolution for the PDF export
+  const renderPrintImage = async (pixelSize: number) => {
+    if (!renderedQr) throw new Error('No QR code to export')
+
+    const { dataUrl } = await renderQRImage(renderedQr.text, {
+      width: pixelSize,
+      margin: renderedQr.margin,
+      colors: renderedQr.colors,
+      style: renderedQr.style,
+      errorCorrection: renderedQr.errorCorrectionLevel
+    }, renderedQr.logoUrl
+      ? { src: renderedQr.logoUrl, options: renderedQr.logoOptions, unit: pixelSize / renderedQr.size }
+      : null)
+    return dataUrl
+  }
+
+  // Batch rows go through the same renderer and logo overlay as the single preview.
+  // A per-row logo column overrides the logo settings.
+  const renderBatchItem = async (row: BatchRow): Promise<BatchItemResult> => {
+    const level = pickErrorCorrection(row.url, logoEnabled || Boolean(row.logo))
+    const qrDataUrl = await renderBaseQRCode(row.url, parseInt(qrSize), margin, colors, qrStyle, level)
+
+    let logoUrl = row.logo
+    if (!logoUrl && logoEnabled) {
+      if (logoPreview) {
+        logoUrl = await editLogo(logoPreview, uploadEdits)
+      } else if (autoDetectLogo) {
+        logoUrl = (await findLogo(row.url)) ?? ''
       }
+    }
 
-      console.log('✅ Canvas created successfully')
+    if (!logoUrl) {
+      return { dataUrl: qrDataUrl, logoError: logoEnabled ? 'No logo found' : undefined }
+    }
 
-      // Create QR image with better error handling
-      const qrImage = await new Promise<HTMLImageElement>((resolve, reject) => {
-        const img = new Image()
-        // Don't set crossOrigin for data URLs
-        if (!qrDataUrl.startsWith('data:')) {
-          img.crossOrigin = 'anonymous'
-        }
-        
-        const timeoutId = setTimeout(() => {
-          console.log('⏰ QR image load timeout')
-          reject(new Error('QR image load timeout'))
-        }, 10000)
-        
-        img.onload = () => {
-          clearTimeout(timeoutId)
-          console.log('✅ QR image loaded:', img.width, 'x', img.height)
-          resolve(img)
-        }
-        
-        img.onerror = (e) => {
-          clearTimeout(timeoutId)
-          console.log('❌ QR image load error:', e)
-          reject(new Error('Failed to load QR image'))
-        }
-        
-        img.src = qrDataUrl
-      })
+    const dataUrl = await renderWithLogo(row.url, level, logoUrl)
+    if (!dataUrl) {
+      return { dataUrl: qrDataUrl, logoError: 'Logo could not be loaded' }
+    }
 
-      // Set canvas dimensions
-      canvas.width = qrImage.width
-      canvas.height = qrImage.height
-      console.log('📐 Canvas dimensions set:', canvas.width, 'x', canvas.height)
-      
-      // Draw QR code
-      ctx.drawImage(qrImage, 0, 0)
-      console.log('✅ QR code drawn on canvas')
-
-      // Try to load and draw logo
-      try {
-        console.log('🔄 Loading logo image...')
-        const logoImage = await new Promise<HTMLImageElement>((resolve, reject) => {
-          const img = new Image()
-          
-          // Handle CORS for external images
-          if (!logoUrl.startsWith('data:')) {
-            img.crossOrigin = 'anonymous'
-          }
-          
-          const timeoutId = setTimeout(() => {
-            console.log('⏰ Logo load timeout for:', logoUrl)
-            reject(new Error('Logo load timeout'))
-          }, 8000) // Increased timeout
-          
-          img.onload = () => {
-            clearTimeout(timeoutId)
-            console.log('✅ Logo image loaded:', img.width, 'x', img.height)
-            resolve(img)
-          }
-          
-          img.onerror = (e) => {
-            clearTimeout(timeoutId)
-            console.log('❌ Logo load error for:', logoUrl, e)
-            reject(new Error('Failed to load logo'))
-          }
-          
-          img.src = logoUrl
-        })
+    // A logo is the only thing that can push a row past its error correction budget
+    const verification = await verifyQRImage(dataUrl, row.url)
+    if (verification.status !== 'verified') {
+      throw new Error(verification.message)
+    }
+    return { dataUrl }
+  }
 
-        // Calculate logo dimensions - make it slightly larger for better visibility
-        const logoSize = Math.min(qrImage.width, qrImage.height) * 0.25
-        const centerX = qrImage.width / 2
-        const centerY = qrImage.height / 2
-        const logoX = centerX - logoSize / 2
-        const logoY = centerY - logoSize / 2
-        
-        console.log('📐 Logo positioning:', {
-          logoSize,
-          centerX,
-          centerY,
-          logoX,
-          logoY
+  const getPayloadValues = (type: StructuredPayloadType) => payloadValues[type] ?? getPayloadDefaults(type)
+
+  // What the current input would encode, without reporting errors; drives the
+  // logo budget and the live preview
+  const previewResult = payloadType === 'url' ? null : encodePayload(payloadType, getPayloadValues(payloadType))
+  // The URL as it will be encoded: scheme completed, tracking parameters removed if asked
+  const normalizedUrl = normalizeUrl(url, { stripTracking })
+  const encodedUrl = normalizedUrl.ok ? normalizedUrl.url : ''
+  const previewPayload = payloadType === 'url'
+    ? (encodedUrl ? { text: encodedUrl, label: encodedUrl } : null)
+    : (previewResult?.ok ? { text: previewResult.text, label: previewResult.label } : null)
+  const previewText = previewPayload?.text ?? null
+  const isDynamic = payloadType === 'url' && dynamicLink
+  // Dynamic codes encode a short link; the placeholder is as long as the real one
+  const encodedPreviewText = previewText && isDynamic ? shortLinkUrl(PREVIEW_SLUG) : previewText
+  const qrPixelSize = parseInt(qrSize)
+  const logoBudget = useMemo(
+    () => encodedPreviewText
+      ? resolveErrorCorrection(encodedPreviewText, errorCorrection, qrPixelSize, margin, logoEnabled ? logoOptions : null)
+      : null,
+    [encodedPreviewText, errorCorrection, qrPixelSize, margin, logoEnabled, logoOptions]
+  )
+
+  // Validates the current input and returns the text to encode, or null after reporting the problem
+  const resolvePayload = (): { text: string; label: string } | null => {
+    if (payloadType === 'url') {
+      if (!normalizedUrl.ok) {
+        toast({
+          title: normalizedUrl.problem === 'empty' ? "URL Required" : "Invalid URL",
+          description: normalizedUrl.message,
+          variant: "destructive"
         })
-        
-        // Create white background circle for logo with border
-        const backgroundRadius = logoSize / 2 + 8
-        
-        // Draw white background circle
-        ctx.fillStyle = 'white'
-        ctx.beginPath()
-        ctx.arc(centerX, centerY, backgroundRadius, 0, 2 * Math.PI)
-        ctx.fill()
-        console.log('✅ White background circle drawn')
-        
-        // Add subtle border around the background
-        ctx.strokeStyle = '#e5e7eb'
-        ctx.lineWidth = 2
-        ctx.beginPath()
-        ctx.arc(centerX, centerY, backgroundRadius, 0, 2 * Math.PI)
-        ctx.stroke()
-        console.log('✅ Border drawn')
-        
-        // Draw logo with circular clipping for perfect centering
-        ctx.save()
-        ctx.beginPath()
-        ctx.arc(centerX, centerY, logoSize / 2, 0, 2 * Math.PI)
-        ctx.clip()
-        
-        // Draw the logo perfectly centered
-        ctx.drawImage(logoImage, logoX, logoY, logoSize, logoSize)
-        ctx.restore()
-        console.log('✅ Logo drawn and clipped')
-        
-      } catch (logoError) {
-        console.warn('⚠️ Logo integration failed, using QR without logo:', logoError)
-        // Continue without logo if logo loading fails
+        return null
       }
 
-      const finalDataUrl = canvas.toDataURL('image/png')
-      console.log('🎉 Final QR with logo created, data URL length:', finalDataUrl.length)
-      return finalDataUrl
-      
-    } catch (error) {
-      console.error('❌ Canvas QR creation failed:', error)
-      // Return original QR code if canvas operations fail
-      return qrDataUrl
+      // Show the completed URL in the input
+      if (normalizedUrl.url !== url) setUrl(normalizedUrl.url)
+      return { text: normalizedUrl.url, label: normalizedUrl.url }
     }
-  }
 
-  const generateQRCode = async (inputUrl?: string) => {
-    const targetUrl = inputUrl || url
-    
-    if (!targetUrl.trim()) {
+    const result = encodePayload(payloadType, getPayloadValues(payloadType))
+    if (!result.ok) {
+      setPayloadErrors(result.errors)
       toast({
-        title: "URL Required",
-        description: "Please enter a URL to generate QR code",
+        title: "Check the Details",
+        description: Object.values(result.errors)[0],
         variant: "destructive"
       })
-      return
+      return null
     }
 
-    if (!isValidUrl(targetUrl)) {
-      toast({
-        title: "Invalid URL",
-        description: "Please enter a valid URL (e.g., https://example.com)",
+    setPayloadErrors({})
+    return { text: result.text, label: result.label }
+  }
+
+  const getCurrentDesign = (): QRDesign => ({
+    payloadType,
+    url: payloadType === 'url' ? encodedUrl || url : '',
+    dynamicLink: isDynamic,
+    payloadValues: payloadType === 'url' ? {} : getPayloadValues(payloadType),
+    size: qrSize,
+    margin,
+    errorCorrection,
+    colors,
+    style: qrStyle,
+    logoEnabled,
+    autoDetectLogo,
+    logo: logoOptions
+  })
+
+  // 'generate' validates loudly, saves to history and reports with toasts.
+  // 'preview' is the live preview: it skips invalid input, history and toasts,
+  // and uses only logos already detected, and is skipped while a Generate runs.
+  // Otherwise only the newest render updates the result, so rapid edits can't
+  // race each other.
+  const generateQRCode = async (mode: 'generate' | 'preview' = 'generate') => {
+    const isPreview = mode === 'preview'
+    const isUrlPayload = payloadType === 'url'
+    const payload = isPreview ? previewPayload : resolvePayload()
+    if (!payload || (isPreview && generatingRef.current)) return
+
+    const notify = (options: Parameters<typeof toast>[0]) => {
+      if (!isPreview) toast(options)
+    }
+
+    if (contrast.level === 'block') {
+      notify({
+        title: "Unscannable Colors",
+        description: contrast.message,
         variant: "destructive"
       })
       return
     }
 
-    setIsGenerating(true)
+    const renderId = ++renderIdRef.current
+    const isStale = () => renderId !== renderIdRef.current
+    if (isPreview) {
+      setIsPreviewing(true)
+    } else {
+      generatingRef.current = true
+      setIsGenerating(true)
+    }
     
     try {
+      // Dynamic codes encode a short link to the URL. Previews don't create links,
+      // so a new one shows a placeholder until the code is generated.
+      let shortLink: ShortLink | null = null
+      if (isDynamic) {
+        try {
+          shortLink = isPreview ? findShortLinkTo(payload.text) : await ensureShortLink(payload.text)
+          const created = shortLink
+          if (created) setShortLinks((links) => links.some((link) => link.slug === created.slug) ? links : loadShortLinks())
+        } catch (error) {
+          console.error('Short link creation failed:', error)
+          notify({
+            title: "Short Link Failed",
+            description: error instanceof Error ? error.message : "Unable to create a short link",
+            variant: "destructive"
+          })
+          return
+        }
+      }
+      const targetText = isDynamic ? shortLink?.shortUrl ?? shortLinkUrl(PREVIEW_SLUG) : payload.text
+
       // Generate base QR code
-      const qrDataUrl = await QRCode.toDataURL(targetUrl, {
-        width: parseInt(qrSize),
-        margin: 2,
-        color: {
-          dark: '#1f2937',
-          light: '#ffffff'
-        },
-        errorCorrectionLevel: 'H' // High error correction for better logo compatibility
-      })
+      const errorCorrectionLevel = pickErrorCorrection(targetText, logoEnabled)
+      if (!measureQRCapacity(targetText, errorCorrectionLevel)) {
+        notify({
+          title: "Content Too Long",
+          description: describeOverflow(targetText, errorCorrection === 'auto' ? 'L' : errorCorrectionLevel),
+          variant: "destructive"
+        })
+        return
+      }
+      const qrDataUrl = await renderBaseQRCode(targetText, parseInt(qrSize), margin, colors, qrStyle, errorCorrectionLevel)
       
       let finalQrDataUrl = qrDataUrl
+      let appliedLogoUrl = ''
 
       // Add logo if enabled
       if (logoEnabled) {
         console.log('🖼️ Logo integration enabled')
         let logoUrl = ''
         
-        if (logoFile && logoPreview) {
+        if (logoPreview) {
           console.log('📁 Using uploaded logo file')
-          logoUrl = logoPreview
-        } else if (autoDetectLogo) {
-          console.log('🔍 Auto-detecting favicon for:', targetUrl)
-          const favicon = await detectFavicon(targetUrl)
-          if (favicon) {
-            console.log('✅ Favicon detected:', favicon)
-            logoUrl = favicon
+          logoUrl = await editLogo(logoPreview, uploadEdits)
+        } else if (autoDetectLogo && isUrlPayload) {
+          // Keep the logo the user picked for this URL; detect only for a new one.
+          // Previews leave detection to the debounced auto-detect.
+          const detected = logoCandidates.pageUrl === payload.text && selectedLogo
+            ? { src: selectedLogo, edits: logoEdits }
+            : isPreview ? null : await detectLogo(payload.text)
+          if (detected) {
+            console.log('✅ Logo detected:', detected.src)
+            logoUrl = await editLogo(detected.src, detected.edits)
           } else {
-            console.log('❌ No favicon detected')
+            console.log('❌ No logo detected')
           }
         }
         
         if (logoUrl) {
           console.log('🎨 Proceeding with logo integration using:', logoUrl)
           try {
-            finalQrDataUrl = await createQRWithLogo(qrDataUrl, logoUrl)
-            // Check if logo integration actually worked by comparing data URLs
-            if (finalQrDataUrl === qrDataUrl) {
+            const withLogo = await renderWithLogo(targetText, errorCorrectionLevel, logoUrl)
+            // A null result means the logo image could not be loaded
+            if (!withLogo) {
               console.warn('⚠️ Logo integration returned original QR code - no changes made')
-              toast({
+              notify({
                 title: "Logo Integration Issue",
                 description: "Logo could not be integrated, using QR code without logo",
                 variant: "destructive"
               })
             } else {
               console.log('🎉 Logo integration successful!')
-              toast({
+              finalQrDataUrl = withLogo
+              appliedLogoUrl = logoUrl
+              notify({
                 title: "Success!",
                 description: "QR code with logo generated successfully"
               })
@@ -404,7 +549,7 @@ export function QRCodeGenerator() {
             console.error('❌ Logo integration failed:', error)
             // Use QR code without logo if logo integration fails
             finalQrDataUrl = qrDataUrl
-            toast({
+            notify({
               title: "Logo Integration Failed",
               description: "QR code generated without logo",
               variant: "destructive"
@@ -412,7 +557,7 @@ export function QRCodeGenerator() {
           }
         } else {
           console.log('⚠️ No logo URL available for integration')
-          toast({
+          notify({
             title: "No Logo Found",
             description: "Could not detect or load logo, generating QR code without logo",
             variant: "destructive"
@@ -420,36 +565,73 @@ export function QRCodeGenerator() {
         }
       }
       
+      const verification = await verifyQRImage(finalQrDataUrl, targetText)
+      console.log('🔎 Scan verification:', verification.status)
+      if (isStale()) return
+
       setQrCodeDataUrl(finalQrDataUrl)
-      if (!inputUrl) {
-        addToRecentUrls(targetUrl)
-      }
-      
-      toast({
-        title: "QR Code Generated!",
-        description: logoEnabled ? "QR code with logo is ready!" : "Your QR code is ready to download or share"
+      setScanVerification(verification)
+      setAllowUnverifiedExport(false)
+      const design = getCurrentDesign()
+      setRenderedQr({
+        text: targetText,
+        label: payload.label,
+        size: parseInt(qrSize),
+        margin,
+        logoUrl: appliedLogoUrl,
+        logoOptions,
+        colors,
+        style: qrStyle,
+        errorCorrectionLevel,
+        design,
+        shortLink
       })
+      if (isPreview) return
+      addToHistory({ label: payload.label, text: targetText, design, logoUrl: appliedLogoUrl }, finalQrDataUrl)
+      
+      if (verification.status === 'verified') {
+        notify({
+          title: "QR Code Generated!",
+          description: logoEnabled ? "QR code with logo is ready!" : "Your QR code is ready to download or share"
+        })
+      } else {
+        notify({
+          title: "Unscannable QR Code",
+          description: verification.message,
+          variant: "destructive"
+        })
+      }
     } catch (error) {
       console.error('QR generation error:', error)
-      toast({
+      if (isStale()) return
+      notify({
         title: "Generation Failed",
         description: "Failed to generate QR code. Please try again.",
         variant: "destructive"
       })
     } finally {
-      setIsGenerating(false)
+      if (isPreview) {
+        if (!isStale()) setIsPreviewing(false)
+      } else {
+        generatingRef.current = false
+        setIsGenerating(false)
+      }
     }
   }
 
-  const downloadQRCode = () => {
-    if (!qrCodeDataUrl) return
-    
+  const saveFile = (href: string, extension: string) => {
     const link = document.createElement('a')
-    link.download = `qr-code-${logoEnabled ? 'with-logo-' : ''}${Date.now()}.png`
-    link.href = qrCodeDataUrl
+    link.download = `qr-code-${renderedQr?.logoUrl ? 'with-logo-' : ''}${Date.now()}.${extension}`
+    link.href = href
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
+  }
+
+  const downloadQRCode = () => {
+    if (!qrCodeDataUrl) return
+    
+    saveFile(qrCodeDataUrl, 'png')
     
     toast({
       title: "Downloaded!",
@@ -457,6 +639,40 @@ export function QRCodeGenerator() {
     })
   }
 
+  const downloadSvg = async () => {
+    if (!renderedQr) return
+
+    try {
+      const logoHref = renderedQr.logoUrl ? await toEmbeddableDataUrl(renderedQr.logoUrl) : undefined
+      const { output: svg } = await renderQR(renderedQr.text, {
+        format: 'svg',
+        width: renderedQr.size,
+        margin: renderedQr.margin,
+        colors: renderedQr.colors,
+        style: renderedQr.style,
+        errorCorrection: renderedQr.errorCorrectionLevel,
+        logo: logoHref ? { src: logoHref, options: renderedQr.logoOptions } : null
+      })
+
+      const objectUrl = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+      saveFile(objectUrl, 'svg')
+      // The browser reads the blob after click() returns; revoking at once can cancel the download
+      setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+
+      toast({
+        title: "Downloaded!",
+        description: "Vector SVG saved to your device"
+      })
+    } catch (error) {
+      console.error('SVG export failed:', error)
+      toast({
+        title: "Export Failed",
+        description: "Unable to create SVG file",
+        variant: "destructive"
+      })
+    }
+  }
+
   const copyToClipboard = async () => {
     if (!qrCodeDataUrl) return
     
@@ -484,27 +700,204 @@ export function QRCodeGenerator() {
     }
   }
 
-  const clearRecentUrls = () => {
-    setRecentUrls([])
-    localStorage.removeItem('qr-recent-urls')
+  const copyDesignLink = async () => {
+    if (!renderedQr) return
+
+    const link = new URL(window.location.href)
+    link.search = designToSearchParams(renderedQr.design).toString()
+    link.hash = ''
+
+    try {
+      await navigator.clipboard.writeText(link.toString())
+      const uploadedLogo = renderedQr.design.logoEnabled && !renderedQr.design.autoDetectLogo
+      toast({
+        title: "Link Copied!",
+        description: uploadedLogo
+          ? "Uploaded logos aren't part of the link; the recipient adds their own"
+          : "Anyone with the link can open this exact design"
+      })
+    } catch (error) {
+      console.error('Copy link failed:', error)
+      toast({
+        title: "Copy Failed",
+        description: "Unable to copy link to clipboard",
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Sets every style option; an uploaded logo is restored when the style uses one
+  const applyDesignStyle = (style: DesignStyle, logoUrl: string) => {
+    setQrSize(style.size)
+    setMargin(style.margin)
+    setErrorCorrection(style.errorCorrection)
+    setColors(style.colors)
+    setQrStyle(style.style)
+    setLogoEnabled(style.logoEnabled)
+    setAutoDetectLogo(style.autoDetectLogo)
+    setLogoOptions(style.logo)
+    if (style.logoEnabled && !style.autoDetectLogo && logoUrl) {
+      setLogoPreview(logoUrl)
+      setUploadEdits(DEFAULT_LOGO_EDITS)
+    }
+  }
+
+  // Loads a saved code back into the form and re-renders it for editing
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    const { design } = entry
+    setPayloadType(design.payloadType)
+    setPayloadErrors({})
+    // A dynamic code's destination may have changed since it was saved
+    setUrl(design.dynamicLink ? findShortLink(entry.text)?.url ?? design.url : design.url)
+    setDynamicLink(design.dynamicLink)
+    if (design.payloadType !== 'url') {
+      setPayloadValues((current) => ({ ...current, [design.payloadType]: design.payloadValues }))
+    }
+    applyDesignStyle(getDesignStyle(design), entry.logoUrl)
+    setSelectedPresetId('')
+    setReopenPending(true)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const updateHistoryEntry = async (entry: HistoryEntry) => {
+    try {
+      await putHistoryEntry(entry)
+      setHistory((current) => current.map((item) => (item.id === entry.id ? entry : item)))
+    } catch (e) {
+      console.error('Failed to update history entry:', e)
+      toast({
+        title: "Update Failed",
+        description: "Unable to save changes to history",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const removeHistoryEntry = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id)
+      setHistory((current) => current.filter((item) => item.id !== entry.id))
+      toast({
+        title: "Deleted",
+        description: `"${entry.name}" was removed from history`
+      })
+    } catch (e) {
+      console.error('Failed to delete history entry:', e)
+    }
+  }
+
+  const clearAllHistory = async () => {
+    try {
+      await clearHistory()
+      setHistory([])
+      toast({
+        title: "History Cleared",
+        description: "All saved QR codes have been cleared"
+      })
+    } catch (e) {
+      console.error('Failed to clear history:', e)
+    }
+  }
+
+  const allPresets = [...BUILT_IN_PRESETS, ...userPresets]
+
+  const updateUserPresets = (presets: DesignPreset[]) => {
+    setUserPresets(presets)
+    savePresets(presets)
+  }
+
+  const applyPreset = (preset: DesignPreset) => {
+    applyDesignStyle(preset.style, preset.logoUrl)
+    setSelectedPresetId(preset.id)
+  }
+
+  const saveCurrentAsPreset = async (name: string) => {
+    const logoUrl = logoPreview ? await editLogo(logoPreview, uploadEdits) : ''
+    const preset = createPreset(name, getDesignStyle(getCurrentDesign()), logoUrl)
+    updateUserPresets([...userPresets, preset])
+    setSelectedPresetId(preset.id)
     toast({
-      title: "History Cleared",
-      description: "Recent URLs have been cleared"
+      title: "Preset Saved!",
+      description: `"${preset.name}" is ready to apply`
     })
   }
 
+  const duplicateSelectedPreset = (preset: DesignPreset) => {
+    const copy = duplicatePreset(preset, allPresets)
+    updateUserPresets([...userPresets, copy])
+    setSelectedPresetId(copy.id)
+  }
+
+  const toggleDefaultPreset = (preset: DesignPreset) => {
+    const id = defaultPresetId === preset.id ? null : preset.id
+    setDefaultPresetId(id)
+    saveDefaultPresetId(id)
+    toast({
+      title: id ? "Default Preset Set" : "Default Preset Cleared",
+      description: id ? `New sessions start with "${preset.name}"` : "New sessions start with the standard style"
+    })
+  }
+
+  const deletePreset = (preset: DesignPreset) => {
+    updateUserPresets(userPresets.filter((item) => item.id !== preset.id))
+    if (defaultPresetId === preset.id) {
+      setDefaultPresetId(null)
+      saveDefaultPresetId(null)
+    }
+    setSelectedPresetId('')
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       generateQRCode()
     }
   }
 
-  // Auto-detect favicon when URL changes and auto-detect is enabled
+  // Auto-detect logos once the URL stops changing and auto-detect is enabled
   useEffect(() => {
-    if (autoDetectLogo && logoEnabled && url && isValidUrl(url)) {
-      detectFavicon(url)
-    }
-  }, [url, autoDetectLogo, logoEnabled, detectFavicon])
+    if (payloadType !== 'url' || !autoDetectLogo || !logoEnabled || !encodedUrl) return
+    const timeoutId = setTimeout(() => detectLogo(encodedUrl), 500)
+    return () => clearTimeout(timeoutId)
+  }, [encodedUrl, payloadType, autoDetectLogo, logoEnabled, detectLogo])
+
+  // Opening a shared design link renders it straight away (once, even under StrictMode)
+  const generateRef = useRef(generateQRCode)
+  generateRef.current = generateQRCode
+  useEffect(() => {
+    if (!linkedDesign || linkGeneratedRef.current) return
+    linkGeneratedRef.current = true
+    generateRef.current()
+  }, [linkedDesign])
+
+  // Live preview re-renders once the options stop changing
+  useEffect(() => {
+    if (!livePreview) return
+    const timeoutId = setTimeout(() => generateRef.current('preview'), 300)
+    return () => clearTimeout(timeoutId)
+  }, [
+    livePreview,
+    previewText,
+    isDynamic,
+    qrSize,
+    margin,
+    colors,
+    qrStyle,
+    errorCorrection,
+    logoEnabled,
+    logoOptions,
+    autoDetectLogo,
+    logoPreview,
+    uploadEdits,
+    selectedLogo,
+    logoEdits
+  ])
+
+  // Re-opened history entries render once their settings are in state
+  useEffect(() => {
+    if (!reopenPending) return
+    setReopenPending(false)
+    generateRef.current()
+  }, [reopenPending])
 
   return (
     <div className="max-w-md mx-auto space-y-6">
@@ -517,27 +910,111 @@ export function QRCodeGenerator() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {/* Payload Type */}
+          <Select
+            value={payloadType}
+            onValueChange={(value) => {
+              setPayloadType(value as PayloadType)
+              setPayloadErrors({})
+            }}
+            disabled={isGenerating}
+          >
+            <SelectTrigger className="h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PAYLOAD_TYPE_LABELS) as PayloadType[]).map((type) => (
+                <SelectItem key={type} value={type}>{PAYLOAD_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           {/* URL Input */}
-          <div className="space-y-2">
-            <div className="relative">
-              <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-              <Input
-                type="url"
-                placeholder="Enter URL (e.g., https://example.com)"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="pl-10 h-12 text-base"
-                disabled={isGenerating}
-              />
+          {payloadType === 'url' ? (
+            <div className="space-y-2">
+              <div className="relative">
+                <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <Input
+                  type="url"
+                  placeholder="Enter URL (e.g., example.com)"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  className="pl-10 h-12 text-base"
+                  disabled={isGenerating}
+                />
+              </div>
+              {url.trim() && !normalizedUrl.ok && (
+                <p className="text-xs text-red-600">{normalizedUrl.message}</p>
+              )}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Eraser className="w-4 h-4 text-gray-500" />
+                  <span className="text-xs text-gray-600">Remove tracking parameters (fbclid, gclid, …)</span>
+                </div>
+                <Switch checked={stripTracking} onCheckedChange={setStripTracking} disabled={isGenerating} />
+              </div>
+              {normalizedUrl.ok && normalizedUrl.removedParams.length > 0 && (
+                <p className="text-xs text-gray-500">Removes {normalizedUrl.removedParams.join(', ')} from the link</p>
+              )}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Link2 className="w-4 h-4 text-gray-500" />
+                  <span className="text-xs text-gray-600">Dynamic link (change the destination after printing)</span>
+                </div>
+                <Switch checked={dynamicLink} onCheckedChange={setDynamicLink} disabled={isGenerating} />
+              </div>
+              {dynamicLink && (
+                <Input
+                  type="password"
+                  value={createToken}
+                  onChange={(e) => {
+                    setCreateToken(e.target.value)
+                    saveCreateToken(e.target.value.trim())
+                  }}
+                  placeholder="Creation token (only if the link service requires one)"
+                  className="h-9 text-xs"
+                  aria-label="Short link creation token"
+                  autoComplete="off"
+                  disabled={isGenerating}
+                />
+              )}
+              <UtmBuilder url={url} onChange={setUrl} disabled={isGenerating} />
             </div>
-          </div>
+          ) : (
+            <PayloadForm
+              type={payloadType}
+              values={getPayloadValues(payloadType)}
+              errors={payloadErrors}
+              onChange={(values) => setPayloadValues({ ...payloadValues, [payloadType]: values })}
+              disabled={isGenerating}
+            />
+          )}
+
+          {/* Capacity */}
+          <CapacityMeter
+            text={encodedPreviewText}
+            level={logoBudget?.level ?? (errorCorrection === 'auto' ? 'L' : errorCorrection)}
+            margin={margin}
+          />
+
+          {/* Presets */}
+          <PresetOptions
+            presets={allPresets}
+            selectedId={selectedPresetId}
+            defaultId={defaultPresetId}
+            onApply={applyPreset}
+            onSave={saveCurrentAsPreset}
+            onDuplicate={duplicateSelectedPreset}
+            onToggleDefault={toggleDefaultPreset}
+            onDelete={deletePreset}
+          />
 
           {/* Logo Options */}
           <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
-                <Image className="w-4 h-4 text-gray-600" />
+                <ImageIcon className="w-4 h-4 text-gray-600" />
                 <span className="text-sm font-medium text-gray-700">Add Logo</span>
               </div>
               <Switch
@@ -560,18 +1037,21 @@ export function QRCodeGenerator() {
                   />
                 </div>
 
-                {/* Detected favicon preview */}
-                {autoDetectLogo && detectedFavicon && (
-                  <div className="flex items-center gap-2 p-2 bg-white rounded border">
-                    <img 
-                      src={detectedFavicon} 
-                      alt="Detected logo" 
-                      className="w-6 h-6 rounded"
-                      onError={() => setDetectedFavicon('')}
-                    />
-                    <span className="text-xs text-gray-600">Auto-detected logo</span>
-                    {isDetectingLogo && <Loader2 className="w-3 h-3 animate-spin" />}
-                  </div>
+                {/* Logos found on the page */}
+                {autoDetectLogo && (isDetectingLogo || logoCandidates.pageUrl === encodedUrl) && (
+                  <LogoCandidatePicker
+                    candidates={logoCandidates.items}
+                    selected={selectedLogo}
+                    onSelect={(candidate) => chooseLogo(candidate, DEFAULT_LOGO_EDITS)}
+                    isDetecting={isDetectingLogo}
+                  />
+                )}
+                {autoDetectLogo && selectedCandidate && logoCandidates.pageUrl === encodedUrl && (
+                  <LogoEditor
+                    src={selectedCandidate.src}
+                    edits={logoEdits}
+                    onChange={(edits) => chooseLogo(selectedCandidate, edits)}
+                  />
                 )}
 
                 {/* Manual upload */}
@@ -596,37 +1076,77 @@ export function QRCodeGenerator() {
                     </Button>
                     
                     {logoPreview && (
-                      <div className="flex items-center gap-2 p-2 bg-white rounded border">
-                        <img src={logoPreview} alt="Logo preview" className="w-6 h-6 rounded" />
-                        <span className="text-xs text-gray-600">Custom logo selected</span>
-                      </div>
+                      <LogoEditor src={logoPreview} edits={uploadEdits} onChange={setUploadEdits} />
                     )}
                   </div>
                 )}
+
+                {/* Logo size, shape and pad */}
+                <LogoStyleOptions options={logoOptions} onChange={setLogoOptions} />
               </div>
             )}
           </div>
 
-          {/* Size Selection */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-gray-700">QR Code Size</label>
-            <Select value={qrSize} onValueChange={setQrSize}>
-              <SelectTrigger className="h-10">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="128">Small (128px)</SelectItem>
-                <SelectItem value="256">Medium (256px)</SelectItem>
-                <SelectItem value="512">Large (512px)</SelectItem>
-                <SelectItem value="1024">Extra Large (1024px)</SelectItem>
-              </SelectContent>
-            </Select>
+          {/* Color Options */}
+          <ColorOptions colors={colors} onChange={setColors} contrast={contrast} />
+
+          {/* Shape Options */}
+          <ShapeOptions style={qrStyle} onChange={setQrStyle} moduleColor={colors.foreground} />
+
+          {/* Error Correction */}
+          <ErrorCorrectionOptions
+            value={errorCorrection}
+            onChange={setErrorCorrection}
+            budget={logoBudget}
+            logoEnabled={logoEnabled}
+          />
+
+          {/* Size and Quiet Zone */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">QR Code Size</label>
+              <Select value={qrSize} onValueChange={setQrSize}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="128">Small (128px)</SelectItem>
+                  <SelectItem value="256">Medium (256px)</SelectItem>
+                  <SelectItem value="512">Large (512px)</SelectItem>
+                  <SelectItem value="1024">Extra Large (1024px)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Quiet Zone</label>
+              <Select value={String(margin)} onValueChange={(value) => setMargin(Number(value))}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QR_MARGINS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option === 1 ? '1 module' : `${option} modules`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Live Preview */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Eye className="w-4 h-4 text-gray-600" />
+              <span className="text-sm font-medium text-gray-700">Live preview</span>
+            </div>
+            <Switch checked={livePreview} onCheckedChange={setLivePreview} />
           </div>
 
           {/* Generate Button */}
           <Button 
             onClick={() => generateQRCode()}
-            disabled={isGenerating || !url.trim()}
+            disabled={isGenerating || (payloadType === 'url' && !url.trim()) || contrast.level === 'block'}
             className="w-full h-12 text-base font-medium bg-blue-600 hover:bg-blue-700"
           >
             {isGenerating ? (
@@ -641,6 +1161,17 @@ export function QRCodeGenerator() {
               </>
             )}
           </Button>
+
+          <Button
+            onClick={() => setBatchDialogOpen(true)}
+            variant="ghost"
+            size="sm"
+            className="w-full text-gray-600"
+            disabled={isGenerating}
+          >
+            <FileArchive className="w-4 h-4 mr-2" />
+            Batch generate from a list or CSV
+          </Button>
         </CardContent>
       </Card>
 
@@ -658,26 +1189,114 @@ export function QRCodeGenerator() {
                 />
               </div>
               
-              {logoEnabled && (
-                <Badge variant="secondary" className="text-xs">
-                  <Image className="w-3 h-3 mr-1" />
-                  QR Code with Logo
-                </Badge>
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                {renderedQr?.logoUrl && (
+                  <Badge variant="secondary" className="text-xs">
+                    <ImageIcon className="w-3 h-3 mr-1" />
+                    QR Code with Logo
+                  </Badge>
+                )}
+                {renderedQr?.shortLink && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Link2 className="w-3 h-3 mr-1" />
+                    Dynamic link
+                  </Badge>
+                )}
+                {isPreviewing && (
+                  <Badge variant="outline" className="text-xs text-gray-500">
+                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    Updating preview
+                  </Badge>
+                )}
+                {scanVerification?.status === 'verified' && (
+                  <Badge variant="secondary" className="text-xs bg-green-100 text-green-700 hover:bg-green-100">
+                    <ShieldCheck className="w-3 h-3 mr-1" />
+                    Scan verified
+                  </Badge>
+                )}
+                {scanVerification && scanVerification.status !== 'verified' && (
+                  <Badge variant="destructive" className="text-xs">
+                    <ShieldAlert className="w-3 h-3 mr-1" />
+                    Unscannable
+                  </Badge>
+                )}
+              </div>
+
+              {/* Scan verification failure */}
+              {scanVerification && scanVerification.status !== 'verified' && (
+                <div className="space-y-1 p-3 bg-red-50 rounded-lg text-left">
+                  <p className="text-xs text-red-700">{scanVerification.message}</p>
+                  {verificationBlocked && (
+                    <button
+                      onClick={() => setAllowUnverifiedExport(true)}
+                      className="text-xs font-medium text-red-700 underline hover:text-red-800"
+                    >
+                      Export anyway
+                    </button>
+                  )}
+                </div>
               )}
               
+
+              {awaitingShortLink && (
+                <p className="text-xs text-gray-600">
+                  This preview encodes a placeholder link. Generate the code to create its short link before exporting.
+                </p>
+              )}
+
+              {/* Dynamic link destination */}
+              {renderedQr?.shortLink && (
+                <ShortLinkEditor
+                  key={renderedQr.shortLink.slug}
+                  link={renderedQr.shortLink}
+                  onUpdated={(shortLink) => {
+                    setRenderedQr((current) => current && {
+                      ...current,
+                      shortLink,
+                      label: shortLink.url,
+                      design: { ...current.design, url: shortLink.url }
+                    })
+                    setUrl(shortLink.url)
+                    setShortLinks(loadShortLinks())
+                  }}
+                />
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-2 justify-center">
                 <Button
                   onClick={downloadQRCode}
+                  disabled={exportBlocked}
                   variant="outline"
                   size="sm"
                   className="flex-1 max-w-32"
                 >
                   <Download className="w-4 h-4 mr-1" />
-                  Download
+                  PNG
+                </Button>
+                <Button
+                  onClick={downloadSvg}
+                  disabled={exportBlocked}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 max-w-32"
+                >
+                  <FileCode className="w-4 h-4 mr-1" />
+                  SVG
+                </Button>
+                <Button
+                  onClick={() => setPdfDialogOpen(true)}
+                  disabled={exportBlocked}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 max-w-32"
+                >
+                  <FileText className="w-4 h-4 mr-1" />
+                  PDF
                 </Button>
                 <Button
                   onClick={copyToClipboard}
+                  disabled={exportBlocked}
                   variant="outline"
                   size="sm"
                   className="flex-1 max-w-32"
@@ -695,60 +1314,49 @@ export function QRCodeGenerator() {
                   )}
                 </Button>
               </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
 
-      {/* Recent URLs */}
-      {recentUrls.length > 0 && (
-        <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
-          <CardHeader className="pb-3">
-            <div className="flex items-center justify-between">
-              <CardTitle className="flex items-center gap-2 text-lg">
-                <History className="w-5 h-5 text-gray-600" />
-                Recent URLs
-              </CardTitle>
               <Button
-                onClick={clearRecentUrls}
+                onClick={copyDesignLink}
                 variant="ghost"
                 size="sm"
-                className="text-gray-500 hover:text-red-600"
+                className="w-full text-gray-600"
               >
-                <Trash2 className="w-4 h-4" />
+                <Share2 className="w-4 h-4 mr-2" />
+                Copy link to this design
               </Button>
             </div>
-          </CardHeader>
-          <CardContent className="pt-0">
-            <div className="space-y-2">
-              {recentUrls.map((item, index) => (
-                <div key={index}>
-                  <button
-                    onClick={() => {
-                      setUrl(item.url)
-                      generateQRCode(item.url)
-                    }}
-                    className="w-full text-left p-3 rounded-lg hover:bg-gray-50 transition-colors group"
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600">
-                          {item.url}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {new Date(item.timestamp).toLocaleDateString()}
-                        </p>
-                      </div>
-                      <QrCode className="w-4 h-4 text-gray-400 group-hover:text-blue-600 ml-2 flex-shrink-0" />
-                    </div>
-                  </button>
-                  {index < recentUrls.length - 1 && <Separator className="mt-2" />}
-                </div>
-              ))}
-            </div>
           </CardContent>
         </Card>
       )}
+
+      {renderedQr && (
+        <PdfExportDialog
+          open={pdfDialogOpen}
+          onOpenChange={setPdfDialogOpen}
+          caption={renderedQr.label}
+          renderImage={renderPrintImage}
+        />
+      )}
+
+      <BatchDialog
+        open={batchDialogOpen}
+        onOpenChange={setBatchDialogOpen}
+        renderItem={renderBatchItem}
+        disabledReason={contrast.level === 'block' ? contrast.message : undefined}
+      />
+
+      {/* Scan Analytics */}
+      {shortLinks.length > 0 && <ScanAnalytics links={shortLinks} />}
+
+      {/* History Library */}
+      <HistoryLibrary
+        entries={history}
+        onOpen={openHistoryEntry}
+        onUpdate={updateHistoryEntry}
+        onDelete={removeHistoryEntry}
+        onClear={clearAllHistory}
+        onImported={setHistory}
+      />
     </div>
   )
 }
\ No newline at end of file
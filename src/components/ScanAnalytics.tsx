@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from './ui/chart'
+import { useToast } from '../hooks/use-toast'
+import {
+  countScansByDay,
+  countScansByDevice,
+  countScansBySlug,
+  SCAN_DEVICE_LABELS,
+  scanEventsToCsv,
+  scansSince,
+  type ScanDevice,
+  type ScanEvent
+} from '../lib/scan-analytics'
+import { fetchScanEvents, type ShortLink } from '../lib/short-links'
+import { BarChart3, Download, Loader2, RefreshCw } from 'lucide-react'
+
+interface ScanAnalyticsProps {
+  // Dynamic codes created from this browser; only their owners can read scans
+  links: ShortLink[]
+}
+
+const RANGES = ['7', '30', '90'] as const
+
+const DEVICE_COLORS: Record<ScanDevice, string> = {
+  mobile: 'hsl(var(--chart-1))',
+  tablet: 'hsl(var(--chart-2))',
+  desktop: 'hsl(var(--chart-3))',
+  bot: 'hsl(var(--chart-4))',
+  other: 'hsl(var(--chart-5))'
+}
+
+const timelineConfig = {
+  scans: { label: 'Scans', color: '#2563eb' }
+} satisfies ChartConfig
+
+const deviceConfig = Object.fromEntries(
+  Object.entries(SCAN_DEVICE_LABELS).map(([device, label]) => [device, { label, color: DEVICE_COLORS[device as ScanDevice] }])
+) satisfies ChartConfig
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+// Scans of dynamic codes over time, by device and by code, read from the
+// redirect service with each link's edit token
+export function ScanAnalytics({ links }: ScanAnalyticsProps) {
+  const [events, setEvents] = useState<ScanEvent[]>([])
+  const [range, setRange] = useState<(typeof RANGES)[number]>('30')
+  const [isLoading, setIsLoading] = useState(false)
+  const [failedCount, setFailedCount] = useState(0)
+  const { toast } = useToast()
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    const results = await Promise.allSettled(links.map(fetchScanEvents))
+    const failed = results.filter((result) => result.status === 'rejected')
+    failed.forEach((result) => console.error('Failed to load scans:', result.reason))
+
+    setEvents(results.flatMap((result) => result.status === 'fulfilled' ? result.value : []))
+    setFailedCount(failed.length)
+    setIsLoading(false)
+  }, [links])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const days = parseInt(range)
+  const inRange = scansSince(events, days)
+  const timeline = countScansByDay(inRange, days)
+  const devices = countScansByDevice(inRange).map((row) => ({ ...row, fill: DEVICE_COLORS[row.device] }))
+  const topCodes = countScansBySlug(inRange).slice(0, 5)
+  const linkBySlug = new Map(links.map((link) => [link.slug, link]))
+
+  const exportEvents = () => {
+    const objectUrl = URL.createObjectURL(new Blob([scanEventsToCsv(events, links)], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.download = `qr-scans-${new Date().toISOString().slice(0, 10)}.csv`
+    link.href = objectUrl
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+
+    toast({
+      title: "Scans Exported!",
+      description: `${events.length} scan ${events.length === 1 ? 'event' : 'events'} written to CSV`
+    })
+  }
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <BarChart3 className="w-5 h-5 text-gray-600" />
+            Scan Analytics
+            <Badge variant="secondary" className="text-xs">{inRange.length}</Badge>
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Select value={range} onValueChange={(value) => setRange(value as (typeof RANGES)[number])}>
+              <SelectTrigger className="h-8 w-32 bg-white text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map((value) => (
+                  <SelectItem key={value} value={value}>Last {value} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-500"
+              onClick={refresh}
+              disabled={isLoading}
+              title="Refresh scans"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-500"
+              onClick={exportEvents}
+              disabled={events.length === 0}
+              title="Export raw scan events"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {failedCount > 0 && (
+          <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+            Scans of {failedCount} {failedCount === 1 ? 'code' : 'codes'} could not be loaded from the short link service.
+          </p>
+        )}
+
+        {/* Scans over time */}
+        <div className="space-y-1">
+          <span className="text-xs text-gray-600">Scans per day</span>
+          <ChartContainer config={timelineConfig} className="aspect-auto h-48 w-full">
+            <BarChart data={timeline} margin={{ left: -20, right: 4 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+              <Bar dataKey="scans" fill="var(--color-scans)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        {inRange.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">
+            No scans in this period. Scans appear here once someone opens one of your dynamic codes.
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {/* Device breakdown */}
+            <div className="space-y-1">
+              <span className="text-xs text-gray-600">Devices</span>
+              <ChartContainer config={deviceConfig} className="aspect-auto h-48 w-full">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="device" hideLabel />} />
+                  <Pie data={devices} dataKey="scans" nameKey="device" innerRadius={36} strokeWidth={2}>
+                    {devices.map((row) => (
+                      <Cell key={row.device} fill={row.fill} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="device" />} />
+                </PieChart>
+              </ChartContainer>
+            </div>
+
+            {/* Top codes */}
+            <div className="space-y-1">
+              <span className="text-xs text-gray-600">Top codes</span>
+              <ol className="space-y-2">
+                {topCodes.map(({ slug, scans }) => {
+                  const link = linkBySlug.get(slug)
+                  return (
+                    <li key={slug} className="flex items-center justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate text-gray-800" title={link?.url}>{link?.url ?? slug}</p>
+                        <p className="text-[11px] text-gray-500 font-mono truncate">{link?.shortUrl ?? slug}</p>
+                      </div>
+                      <Badge variant="secondary" className="text-xs shrink-0">{scans}</Badge>
+                    </li>
+                  )
+                })}
+              </ol>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,106 @@
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ColorField } from './ColorOptions'
+import {
+  FINDER_SHAPE_LABELS,
+  MODULE_SHAPE_LABELS,
+  type FinderFrameShape,
+  type FinderPupilShape,
+  type ModuleShape,
+  type QRStyle
+} from '../lib/qr-shapes'
+import { Shapes } from 'lucide-react'
+
+interface ShapeSelectProps<T extends string> {
+  label: string
+  value: T
+  options: Record<T, string>
+  onChange: (value: T) => void
+}
+
+function ShapeSelect<T extends string>({ label, value, options, onChange }: ShapeSelectProps<T>) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs text-gray-600">{label}</span>
+      <Select value={value} onValueChange={(next) => onChange(next as T)}>
+        <SelectTrigger className="h-9 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(options) as T[]).map((option) => (
+            <SelectItem key={option} value={option}>{options[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+interface ShapeOptionsProps {
+  style: QRStyle
+  onChange: (style: QRStyle) => void
+  // Used as the starting color when custom finder colors are switched on
+  moduleColor: string
+}
+
+export function ShapeOptions({ style, onChange, moduleColor }: ShapeOptionsProps) {
+  const update = (patch: Partial<QRStyle>) => onChange({ ...style, ...patch })
+  const customFinderColors = style.finderFrameColor !== null || style.finderPupilColor !== null
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Shapes className="w-4 h-4 text-gray-600" />
+        <span className="text-sm font-medium text-gray-700">Shapes</span>
+      </div>
+
+      <ShapeSelect<ModuleShape>
+        label="Modules"
+        value={style.moduleShape}
+        options={MODULE_SHAPE_LABELS}
+        onChange={(moduleShape) => update({ moduleShape })}
+      />
+
+      <div className="grid grid-cols-2 gap-3">
+        <ShapeSelect<FinderFrameShape>
+          label="Corner frames"
+          value={style.finderFrameShape}
+          options={FINDER_SHAPE_LABELS}
+          onChange={(finderFrameShape) => update({ finderFrameShape })}
+        />
+        <ShapeSelect<FinderPupilShape>
+          label="Corner dots"
+          value={style.finderPupilShape}
+          options={FINDER_SHAPE_LABELS}
+          onChange={(finderPupilShape) => update({ finderPupilShape })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-600">Custom corner colors</span>
+        <Switch
+          checked={customFinderColors}
+          onCheckedChange={(checked) => update({
+            finderFrameColor: checked ? moduleColor : null,
+            finderPupilColor: checked ? moduleColor : null
+          })}
+        />
+      </div>
+
+      {customFinderColors && (
+        <div className="grid grid-cols-2 gap-3">
+          <ColorField
+            label="Frame color"
+            value={style.finderFrameColor ?? moduleColor}
+            onChange={(finderFrameColor) => update({ finderFrameColor })}
+          />
+          <ColorField
+            label="Dot color"
+            value={style.finderPupilColor ?? moduleColor}
+            onChange={(finderPupilColor) => update({ finderPupilColor })}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
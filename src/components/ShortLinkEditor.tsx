@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { useToast } from '../hooks/use-toast'
+import { updateShortLink, type ShortLink } from '../lib/short-links'
+import { normalizeUrl } from '../lib/url'
+import { Link2, Loader2 } from 'lucide-react'
+
+interface ShortLinkEditorProps {
+  link: ShortLink
+  onUpdated: (link: ShortLink) => void
+}
+
+// Changes where a dynamic code's short link redirects; the printed code stays the same
+export function ShortLinkEditor({ link, onUpdated }: ShortLinkEditorProps) {
+  const [draftUrl, setDraftUrl] = useState(link.url)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+  const changed = draftUrl.trim() !== link.url
+
+  const save = async () => {
+    const normalized = normalizeUrl(draftUrl)
+    if (!normalized.ok) {
+      toast({
+        title: "Invalid URL",
+        description: normalized.message,
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const updated = await updateShortLink(link, normalized.url)
+      setDraftUrl(updated.url)
+      onUpdated(updated)
+      toast({
+        title: "Destination Updated!",
+        description: "Scans of this code now open the new URL"
+      })
+    } catch (error) {
+      console.error('Short link update failed:', error)
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Unable to change the destination",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 p-3 bg-gray-50 rounded-lg text-left">
+      <div className="flex items-center gap-2">
+        <Link2 className="w-4 h-4 text-gray-600" />
+        <span className="text-sm font-medium text-gray-700">Dynamic link</span>
+      </div>
+      <p className="text-[11px] text-gray-500 font-mono truncate" title={link.shortUrl}>
+        {link.shortUrl}
+      </p>
+      <div className="space-y-1">
+        <span className="text-xs text-gray-600">Destination</span>
+        <div className="flex gap-2">
+          <Input
+            type="url"
+            value={draftUrl}
+            onChange={(e) => setDraftUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && changed && save()}
+            className="h-9 bg-white"
+            disabled={isSaving}
+          />
+          <Button
+            size="sm"
+            className="h-9 bg-blue-600 hover:bg-blue-700"
+            onClick={save}
+            disabled={!changed || isSaving}
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
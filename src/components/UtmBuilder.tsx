@@ -0,0 +1,176 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { useToast } from '../hooks/use-toast'
+import {
+  applyUtmTags,
+  EMPTY_UTM_TAGS,
+  findUtmConflicts,
+  loadRecentUtmValues,
+  readUtmTags,
+  rememberUtmValues,
+  UTM_FIELD_LABELS,
+  UTM_FIELD_PLACEHOLDERS,
+  type UtmField,
+  type UtmTags
+} from '../lib/utm'
+import { AlertTriangle, ChevronDown, ChevronUp, Megaphone, Plus, X } from 'lucide-react'
+
+interface UtmBuilderProps {
+  url: string
+  onChange: (url: string) => void
+  disabled?: boolean
+}
+
+const UTM_FIELDS = Object.keys(UTM_FIELD_LABELS) as UtmField[]
+
+// Adds campaign tags to the URL input instead of hand-editing the query string
+export function UtmBuilder({ url, onChange, disabled }: UtmBuilderProps) {
+  const [open, setOpen] = useState(false)
+  const [tags, setTags] = useState<UtmTags>(EMPTY_UTM_TAGS)
+  const [recent, setRecent] = useState(loadRecentUtmValues)
+  const { toast } = useToast()
+
+  const conflicts = findUtmConflicts(url, tags)
+  const next = applyUtmTags(url, tags)
+
+  const toggle = () => {
+    // Start from the tags already in the URL
+    if (!open) setTags(readUtmTags(url))
+    setOpen(!open)
+  }
+
+  const updateField = (field: UtmField, value: string) =>
+    setTags({ ...tags, fields: { ...tags.fields, [field]: value } })
+
+  const updateCustom = (index: number, patch: Partial<UtmTags['custom'][number]>) =>
+    setTags({ ...tags, custom: tags.custom.map((param, i) => i === index ? { ...param, ...patch } : param) })
+
+  const apply = () => {
+    if (next === null) {
+      toast({
+        title: "Invalid URL",
+        description: "Enter the page URL first, then add campaign tags",
+        variant: "destructive"
+      })
+      return
+    }
+
+    onChange(next)
+    setRecent(rememberUtmValues(tags))
+    toast({
+      title: "Campaign Tags Added!",
+      description: "The URL now carries your UTM parameters"
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={toggle}
+        disabled={disabled}
+        className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+      >
+        <Megaphone className="w-3 h-3" />
+        Campaign tags (UTM)
+        {open ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {open && (
+        <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+          <div className="grid grid-cols-2 gap-3">
+            {UTM_FIELDS.map((field) => (
+              <div key={field} className="space-y-1">
+                <span className="text-xs text-gray-600">{UTM_FIELD_LABELS[field]}</span>
+                <Input
+                  value={tags.fields[field]}
+                  onChange={(e) => updateField(field, e.target.value)}
+                  placeholder={UTM_FIELD_PLACEHOLDERS[field]}
+                  list={`utm-recent-${field}`}
+                  className="h-9 bg-white"
+                  disabled={disabled}
+                />
+                <datalist id={`utm-recent-${field}`}>
+                  {recent[field].map((value) => (
+                    <option key={value} value={value} />
+                  ))}
+                </datalist>
+              </div>
+            ))}
+          </div>
+
+          {/* Custom parameters */}
+          {tags.custom.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-xs text-gray-600">Custom parameters</span>
+              {tags.custom.map((param, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={param.name}
+                    onChange={(e) => updateCustom(index, { name: e.target.value })}
+                    placeholder="name"
+                    className="h-9 bg-white font-mono text-xs"
+                    disabled={disabled}
+                  />
+                  <Input
+                    value={param.value}
+                    onChange={(e) => updateCustom(index, { value: e.target.value })}
+                    placeholder="value"
+                    className="h-9 bg-white"
+                    disabled={disabled}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-9 px-2 text-gray-500"
+                    onClick={() => setTags({ ...tags, custom: tags.custom.filter((_, i) => i !== index) })}
+                    title="Remove parameter"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="flex items-start gap-2 p-2 rounded border text-xs text-amber-700 bg-amber-50 border-amber-200">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <ul className="space-y-1">
+                {conflicts.map((conflict) => (
+                  <li key={conflict}>{conflict}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-500"
+              onClick={() => setTags({ ...tags, custom: [...tags.custom, { name: '', value: '' }] })}
+              disabled={disabled}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Custom parameter
+            </Button>
+            <Button
+              size="sm"
+              className="bg-blue-600 hover:bg-blue-700"
+              onClick={apply}
+              disabled={disabled || next === url}
+            >
+              Apply to URL
+            </Button>
+          </div>
+
+          {next && next !== url && (
+            <p className="text-[11px] text-gray-500 font-mono break-all">{next}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
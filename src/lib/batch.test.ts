@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { parseBatchInput } from './batch'
+
+describe('parseBatchInput', () => {
+  it('numbers plain lists by input line, blank lines included', () => {
+    const rows = parseBatchInput('example.com\n\nexample.org\r\n\r\nexample.net\n')
+    expect(rows.map(({ line, url }) => [line, url])).toEqual([
+      [1, 'example.com'],
+      [3, 'example.org'],
+      [5, 'example.net']
+    ])
+  })
+
+  it('counts the header and line breaks inside quoted cells', () => {
+    const rows = parseBatchInput('url,label\n\nhttps://a.example,"two\nlines"\nhttps://b.example,plain\n')
+    expect(rows).toMatchObject([
+      { line: 3, url: 'https://a.example', label: 'two\nlines' },
+      { line: 5, url: 'https://b.example', label: 'plain' }
+    ])
+  })
+})
@@ -0,0 +1,166 @@
+import JSZip from 'jszip'
+import { parseCsv, toCsv } from './csv'
+import { normalizeUrl } from './url'
+
+export interface BatchRow {
+  // 1-based line the row starts on in the input (blank lines and the header
+  // counted), matching the row numbers a spreadsheet shows
+  line: number
+  url: string
+  filename: string
+  label: string
+  logo: string
+}
+
+export interface BatchItemResult {
+  dataUrl: string
+  // Set when a logo was requested for the row but could not be applied
+  logoError?: string
+}
+
+export interface BatchProgress {
+  completed: number
+  total: number
+  failed: number
+}
+
+export interface BatchSummary {
+  zip: Blob
+  succeeded: number
+  failed: number
+  cancelled: boolean
+}
+
+const COLUMN_ALIASES: Record<keyof Omit<BatchRow, 'line'>, string[]> = {
+  url: ['url', 'link', 'href'],
+  filename: ['filename', 'file', 'name'],
+  label: ['label', 'title', 'caption'],
+  logo: ['logo', 'logo_url', 'logourl', 'image']
+}
+
+const MAX_FILENAME_LENGTH = 80
+
+// Accepts a plain list (one URL per line) or CSV. A header row naming a `url`
+// column maps columns by name; otherwise columns are url, filename, label, logo.
+export function parseBatchInput(text: string): BatchRow[] {
+  const records = parseCsv(text)
+  if (records.length === 0) return []
+
+  const header = records[0].cells.map((cell) => cell.trim().toLowerCase())
+  const hasHeader = COLUMN_ALIASES.url.some((alias) => header.includes(alias))
+  const columnIndex = (key: keyof typeof COLUMN_ALIASES, position: number) => {
+    if (!hasHeader) return position
+    return header.findIndex((cell) => COLUMN_ALIASES[key].includes(cell))
+  }
+
+  const columns = {
+    url: columnIndex('url', 0),
+    filename: columnIndex('filename', 1),
+    label: columnIndex('label', 2),
+    logo: columnIndex('logo', 3)
+  }
+  const cell = (record: string[], index: number) => (index >= 0 ? record[index] ?? '' : '').trim()
+
+  return records.slice(hasHeader ? 1 : 0).map(({ line, cells }) => ({
+    line,
+    url: cell(cells, columns.url),
+    filename: cell(cells, columns.filename),
+    label: cell(cells, columns.label),
+    logo: cell(cells, columns.logo)
+  }))
+}
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/\.png$/i, '')
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .slice(0, MAX_FILENAME_LENGTH)
+}
+
+function fallbackName(row: BatchRow) {
+  if (row.label) return row.label
+  const normalized = normalizeUrl(row.url)
+  if (!normalized.ok) return `row-${row.line}`
+  const parsed = new URL(normalized.url)
+  return `${parsed.hostname}${parsed.pathname}`
+}
+
+// Sanitized, de-duplicated .png names for every row
+export function assignFilenames(rows: BatchRow[]): string[] {
+  const used = new Set<string>()
+
+  return rows.map((row) => {
+    const base = slugify(row.filename) || slugify(fallbackName(row)) || `row-${row.line}`
+    let name = `${base}.png`
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}-${suffix}.png`
+    }
+    used.add(name)
+    return name
+  })
+}
+
+const dataUrlToBase64 = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1)
+
+// Renders every row in order and packs the images plus a manifest.csv into a ZIP.
+// A failing row is recorded in the manifest instead of stopping the batch.
+export async function createBatchZip(
+  rows: BatchRow[],
+  renderItem: (row: BatchRow) => Promise<BatchItemResult>,
+  onProgress: (progress: BatchProgress) => void,
+  signal?: AbortSignal
+): Promise<BatchSummary> {
+  const zip = new JSZip()
+  const filenames = assignFilenames(rows)
+  const manifest: string[][] = [['line', 'url', 'filename', 'label', 'logo', 'status', 'error']]
+  let failed = 0
+  let completed = 0
+
+  for (const [index, row] of rows.entries()) {
+    if (signal?.aborted) break
+
+    const filename = filenames[index]
+    let status = 'ok'
+    let error = ''
+
+    const normalized = normalizeUrl(row.url)
+    if (!row.url) {
+      status = 'error'
+      error = 'Missing URL'
+    } else if (!normalized.ok) {
+      status = 'error'
+      error = normalized.message
+    } else {
+      try {
+        const result = await renderItem({ ...row, url: normalized.url })
+        zip.file(filename, dataUrlToBase64(result.dataUrl), { base64: true })
+        if (result.logoError) {
+          status = 'ok-without-logo'
+          error = result.logoError
+        }
+      } catch (renderError) {
+        status = 'error'
+        error = renderError instanceof Error ? renderError.message : 'Generation failed'
+      }
+    }
+
+    if (status === 'error') failed++
+    completed++
+    manifest.push([String(row.line), row.url, status === 'error' ? '' : filename, row.label, row.logo, status, error])
+    onProgress({ completed, total: rows.length, failed })
+
+    // Let the progress bar paint between rows
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  zip.file('manifest.csv', toCsv(manifest))
+
+  return {
+    zip: await zip.generateAsync({ type: 'blob' }),
+    succeeded: completed - failed,
+    failed,
+    cancelled: Boolean(signal?.aborted)
+  }
+}
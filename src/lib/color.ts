@@ -0,0 +1,42 @@
+export interface RGB {
+  r: number
+  g: number
+  b: number
+}
+
+// Accepts #rgb and #rrggbb (the formats produced by <input type="color">). The
+// '#' is required and nothing may surround it, since accepted values are written
+// as-is into canvas and SVG fills.
+export function parseHexColor(hex: string): RGB | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex)
+  if (!match) return null
+
+  const value = match[1].length === 3
+    ? match[1].split('').map((c) => c + c).join('')
+    : match[1]
+
+  return {
+    r: parseInt(value.slice(0, 2), 16),
+    g: parseInt(value.slice(2, 4), 16),
+    b: parseInt(value.slice(4, 6), 16)
+  }
+}
+
+export function isHexColor(value: string) {
+  return parseHexColor(value) !== null
+}
+
+// WCAG 2.x relative luminance
+export function relativeLuminance({ r, g, b }: RGB) {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb
+}
+
+export function contrastRatio(a: RGB, b: RGB) {
+  const la = relativeLuminance(a)
+  const lb = relativeLuminance(b)
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05)
+}
@@ -0,0 +1,66 @@
+export interface CsvRecord {
+  // 1-based line the record starts on, blank lines and quoted line breaks included
+  line: number
+  cells: string[]
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF/LF line breaks
+export function parseCsv(text: string): CsvRecord[] {
+  const rows: CsvRecord[] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push({ line: rowLine, cells: row })
+      row = []
+      field = ''
+      rowLine = ++line
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push({ line: rowLine, cells: row })
+  }
+
+  // Drop blank lines
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ''))
+}
+
+function escapeCell(value: string) {
+  // Keep spreadsheet apps from evaluating user-supplied text as a formula
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map((cell) => escapeCell(String(cell))).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,292 @@
+import { z } from 'zod'
+import { isHexColor } from './color'
+import { DEFAULT_QR_COLORS, type GradientType, type QRColors } from './qr-colors'
+import { ERROR_CORRECTION_LABELS, type ErrorCorrectionSetting } from './qr-ecc'
+import {
+  DEFAULT_LOGO_OPTIONS,
+  LOGO_SCALE_RANGE,
+  LOGO_SHAPE_LABELS,
+  type LogoOptions,
+  type LogoShape
+} from './qr-logo'
+import {
+  DEFAULT_QR_STYLE,
+  FINDER_SHAPE_LABELS,
+  MODULE_SHAPE_LABELS,
+  type FinderFrameShape,
+  type ModuleShape,
+  type QRStyle
+} from './qr-shapes'
+import {
+  getPayloadDefaults,
+  getPayloadFields,
+  PAYLOAD_TYPE_LABELS,
+  type PayloadType,
+  type PayloadValues
+} from './payloads'
+
+export const QR_SIZES = ['128', '256', '512', '1024'] as const
+// Quiet zone width in modules; the QR spec asks for 4, most scanners cope with 2
+export const QR_MARGINS = [0, 1, 2, 4, 6, 8] as const
+
+// Everything the generator form needs to reproduce a code
+export interface QRDesign {
+  payloadType: PayloadType
+  url: string
+  // URLs only: encode an editable short link to `url` instead of the URL itself
+  dynamicLink: boolean
+  // Field values for the structured payload type; empty for URLs
+  payloadValues: PayloadValues
+  size: string
+  margin: number
+  errorCorrection: ErrorCorrectionSetting
+  colors: QRColors
+  style: QRStyle
+  logoEnabled: boolean
+  autoDetectLogo: boolean
+  logo: LogoOptions
+}
+
+// The look of a code without its content, as captured by presets
+export type DesignStyle = Omit<QRDesign, 'payloadType' | 'url' | 'dynamicLink' | 'payloadValues'>
+
+export const DEFAULT_QR_DESIGN: QRDesign = {
+  payloadType: 'url',
+  url: '',
+  dynamicLink: false,
+  payloadValues: {},
+  size: '256',
+  margin: 2,
+  errorCorrection: 'auto',
+  colors: DEFAULT_QR_COLORS,
+  style: DEFAULT_QR_STYLE,
+  logoEnabled: false,
+  autoDetectLogo: true,
+  logo: DEFAULT_LOGO_OPTIONS
+}
+
+const GRADIENT_TYPES: GradientType[] = ['none', 'linear', 'radial']
+
+const keysOf = <T extends string>(labels: Record<T, string>) => Object.keys(labels) as [T, ...T[]]
+const hexColor = z.string().trim().refine(isHexColor, 'Invalid color')
+
+// Upper bounds of the logo pad and border sliders, in pixels
+export const LOGO_PAD_MAX = 32
+export const LOGO_BORDER_MAX = 12
+
+// Validates designs coming from outside the app (history files, stored presets).
+// Fields added after the first release default so older files stay valid.
+export const designStyleSchema = z.object({
+  size: z.enum(QR_SIZES),
+  margin: z.number().int().min(0).max(QR_MARGINS[QR_MARGINS.length - 1]).default(DEFAULT_QR_DESIGN.margin),
+  errorCorrection: z.enum(keysOf(ERROR_CORRECTION_LABELS)),
+  colors: z.object({
+    foreground: hexColor,
+    background: hexColor,
+    transparentBackground: z.boolean(),
+    gradientType: z.enum(GRADIENT_TYPES as [GradientType, ...GradientType[]]),
+    gradientColor: hexColor,
+    gradientAngle: z.number().min(0).max(360)
+  }),
+  style: z.object({
+    moduleShape: z.enum(keysOf<ModuleShape>(MODULE_SHAPE_LABELS)),
+    finderFrameShape: z.enum(keysOf<FinderFrameShape>(FINDER_SHAPE_LABELS)),
+    finderPupilShape: z.enum(keysOf<FinderFrameShape>(FINDER_SHAPE_LABELS)),
+    finderFrameColor: hexColor.nullable(),
+    finderPupilColor: hexColor.nullable()
+  }),
+  logoEnabled: z.boolean(),
+  autoDetectLogo: z.boolean(),
+  logo: z.object({
+    scale: z.number().min(LOGO_SCALE_RANGE.min).max(LOGO_SCALE_RANGE.max),
+    shape: z.enum(keysOf<LogoShape>(LOGO_SHAPE_LABELS)),
+    padColor: hexColor,
+    padSize: z.number().min(0).max(LOGO_PAD_MAX),
+    borderWidth: z.number().min(0).max(LOGO_BORDER_MAX),
+    borderColor: hexColor,
+    excavate: z.boolean()
+  }).default(DEFAULT_LOGO_OPTIONS)
+})
+
+export const qrDesignSchema: z.ZodType<QRDesign> = designStyleSchema.extend({
+  payloadType: z.enum(keysOf(PAYLOAD_TYPE_LABELS)),
+  url: z.string(),
+  dynamicLink: z.boolean().default(false),
+  payloadValues: z.record(z.string(), z.union([z.string(), z.boolean()]))
+})
+
+// Fills fields missing from designs saved by older versions
+export const withDesignDefaults = (design: Partial<QRDesign>): QRDesign => ({ ...DEFAULT_QR_DESIGN, ...design })
+
+export function getDesignStyle(design: QRDesign): DesignStyle {
+  const { payloadType, url, dynamicLink, payloadValues, ...style } = design
+  return style
+}
+
+// Short query keys keep shared links readable; payload fields go under `d.<field>`
+const PARAM = {
+  type: 'type',
+  url: 'url',
+  dynamicLink: 'dyn',
+  size: 'size',
+  margin: 'm',
+  errorCorrection: 'ecc',
+  foreground: 'fg',
+  background: 'bg',
+  transparentBackground: 'tbg',
+  gradientType: 'grad',
+  gradientColor: 'gc',
+  gradientAngle: 'ga',
+  moduleShape: 'ms',
+  finderFrameShape: 'ff',
+  finderPupilShape: 'fp',
+  finderFrameColor: 'fc',
+  finderPupilColor: 'pc',
+  logo: 'logo',
+  autoDetectLogo: 'logoAuto',
+  logoScale: 'ls',
+  logoShape: 'lsh',
+  logoPadColor: 'lpc',
+  logoPadSize: 'lps',
+  logoBorderWidth: 'lbw',
+  logoBorderColor: 'lbc',
+  logoExcavate: 'lx'
+}
+const FIELD_PREFIX = 'd.'
+
+const flag = (value: boolean) => (value ? '1' : '0')
+const color = (value: string) => value.replace(/^#/, '')
+
+export function designToSearchParams(design: QRDesign): URLSearchParams {
+  const params = new URLSearchParams()
+  const { colors, style } = design
+
+  params.set(PARAM.type, design.payloadType)
+  if (design.payloadType === 'url') {
+    params.set(PARAM.url, design.url)
+    if (design.dynamicLink) params.set(PARAM.dynamicLink, '1')
+  } else {
+    for (const [name, value] of Object.entries(design.payloadValues)) {
+      if (value === '' || value === false) continue
+      params.set(FIELD_PREFIX + name, typeof value === 'boolean' ? flag(value) : value)
+    }
+  }
+
+  params.set(PARAM.size, design.size)
+  params.set(PARAM.margin, String(design.margin))
+  params.set(PARAM.errorCorrection, design.errorCorrection)
+  params.set(PARAM.foreground, color(colors.foreground))
+  params.set(PARAM.background, color(colors.background))
+  if (colors.transparentBackground) params.set(PARAM.transparentBackground, '1')
+  if (colors.gradientType !== 'none') {
+    params.set(PARAM.gradientType, colors.gradientType)
+    params.set(PARAM.gradientColor, color(colors.gradientColor))
+    params.set(PARAM.gradientAngle, String(colors.gradientAngle))
+  }
+
+  params.set(PARAM.moduleShape, style.moduleShape)
+  params.set(PARAM.finderFrameShape, style.finderFrameShape)
+  params.set(PARAM.finderPupilShape, style.finderPupilShape)
+  if (style.finderFrameColor) params.set(PARAM.finderFrameColor, color(style.finderFrameColor))
+  if (style.finderPupilColor) params.set(PARAM.finderPupilColor, color(style.finderPupilColor))
+
+  params.set(PARAM.logo, flag(design.logoEnabled))
+  if (design.logoEnabled) {
+    const { logo } = design
+    params.set(PARAM.autoDetectLogo, flag(design.autoDetectLogo))
+    params.set(PARAM.logoScale, String(logo.scale))
+    params.set(PARAM.logoShape, logo.shape)
+    params.set(PARAM.logoPadColor, color(logo.padColor))
+    params.set(PARAM.logoPadSize, String(logo.padSize))
+    params.set(PARAM.logoBorderWidth, String(logo.borderWidth))
+    params.set(PARAM.logoBorderColor, color(logo.borderColor))
+    if (logo.excavate) params.set(PARAM.logoExcavate, '1')
+  }
+
+  return params
+}
+
+function oneOf<T extends string>(value: string | null, options: readonly T[]): T | undefined {
+  return options.find((option) => option === value)
+}
+
+function readColor(value: string | null): string | undefined {
+  if (value === null) return undefined
+  const hex = `#${value}`
+  return isHexColor(hex) ? hex.toLowerCase() : undefined
+}
+
+function readFlag(value: string | null): boolean | undefined {
+  return value === '1' ? true : value === '0' ? false : undefined
+}
+
+function readNumber(value: string | null, min: number, max: number): number | undefined {
+  if (value === null || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : undefined
+}
+
+// Reads a shared link back into a design. Missing or malformed values fall back
+// to the defaults so a hand-edited link still opens. Returns null without a type.
+export function readDesignParams(params: URLSearchParams): QRDesign | null {
+  const payloadType = oneOf(params.get(PARAM.type), Object.keys(PAYLOAD_TYPE_LABELS) as PayloadType[])
+  if (!payloadType) return null
+
+  let payloadValues: PayloadValues = {}
+  if (payloadType !== 'url') {
+    payloadValues = getPayloadDefaults(payloadType)
+    for (const field of getPayloadFields(payloadType)) {
+      const value = params.get(FIELD_PREFIX + field.name)
+      if (value === null) continue
+      if (field.kind === 'checkbox') {
+        payloadValues[field.name] = value === '1'
+      } else if (field.kind !== 'select' || field.options?.some((option) => option.value === value)) {
+        payloadValues[field.name] = value
+      }
+    }
+  }
+
+  const defaults = DEFAULT_QR_DESIGN
+
+  return {
+    payloadType,
+    url: payloadType === 'url' ? params.get(PARAM.url) ?? '' : '',
+    dynamicLink: payloadType === 'url' && readFlag(params.get(PARAM.dynamicLink)) === true,
+    payloadValues,
+    size: oneOf(params.get(PARAM.size), QR_SIZES) ?? defaults.size,
+    margin: QR_MARGINS.find((margin) => String(margin) === params.get(PARAM.margin)) ?? defaults.margin,
+    errorCorrection: oneOf(
+      params.get(PARAM.errorCorrection),
+      Object.keys(ERROR_CORRECTION_LABELS) as ErrorCorrectionSetting[]
+    ) ?? defaults.errorCorrection,
+    colors: {
+      foreground: readColor(params.get(PARAM.foreground)) ?? defaults.colors.foreground,
+      background: readColor(params.get(PARAM.background)) ?? defaults.colors.background,
+      transparentBackground: readFlag(params.get(PARAM.transparentBackground)) ?? false,
+      gradientType: oneOf(params.get(PARAM.gradientType), GRADIENT_TYPES) ?? 'none',
+      gradientColor: readColor(params.get(PARAM.gradientColor)) ?? defaults.colors.gradientColor,
+      gradientAngle: readNumber(params.get(PARAM.gradientAngle), 0, 360) ?? defaults.colors.gradientAngle
+    },
+    style: {
+      moduleShape: oneOf(params.get(PARAM.moduleShape), Object.keys(MODULE_SHAPE_LABELS) as QRStyle['moduleShape'][])
+        ?? defaults.style.moduleShape,
+      finderFrameShape: oneOf(params.get(PARAM.finderFrameShape), Object.keys(FINDER_SHAPE_LABELS) as QRStyle['finderFrameShape'][])
+        ?? defaults.style.finderFrameShape,
+      finderPupilShape: oneOf(params.get(PARAM.finderPupilShape), Object.keys(FINDER_SHAPE_LABELS) as QRStyle['finderPupilShape'][])
+        ?? defaults.style.finderPupilShape,
+      finderFrameColor: readColor(params.get(PARAM.finderFrameColor)) ?? null,
+      finderPupilColor: readColor(params.get(PARAM.finderPupilColor)) ?? null
+    },
+    logoEnabled: readFlag(params.get(PARAM.logo)) ?? defaults.logoEnabled,
+    autoDetectLogo: readFlag(params.get(PARAM.autoDetectLogo)) ?? defaults.autoDetectLogo,
+    logo: {
+      scale: readNumber(params.get(PARAM.logoScale), LOGO_SCALE_RANGE.min, LOGO_SCALE_RANGE.max) ?? defaults.logo.scale,
+      shape: oneOf(params.get(PARAM.logoShape), Object.keys(LOGO_SHAPE_LABELS) as LogoShape[]) ?? defaults.logo.shape,
+      padColor: readColor(params.get(PARAM.logoPadColor)) ?? defaults.logo.padColor,
+      padSize: readNumber(params.get(PARAM.logoPadSize), 0, LOGO_PAD_MAX) ?? defaults.logo.padSize,
+      borderWidth: readNumber(params.get(PARAM.logoBorderWidth), 0, LOGO_BORDER_MAX) ?? defaults.logo.borderWidth,
+      borderColor: readColor(params.get(PARAM.logoBorderColor)) ?? defaults.logo.borderColor,
+      excavate: readFlag(params.get(PARAM.logoExcavate)) ?? false
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { z } from 'zod'
+import { qrDesignSchema } from './design'
+import { isSameDesign, type HistoryEntry } from './history'
+
+const FILE_FORMAT = 'qr-code-history'
+// Bump when the entry shape changes and teach parseHistoryFile to upgrade older files
+export const HISTORY_FILE_VERSION = 1
+
+export type ImportMode = 'merge' | 'replace'
+
+export interface InvalidRow {
+  // 1-based position in the file's entries array
+  row: number
+  message: string
+}
+
+export interface ParsedHistoryFile {
+  entries: HistoryEntry[]
+  invalid: InvalidRow[]
+}
+
+export interface ImportPlan {
+  toWrite: HistoryEntry[]
+  // Entries skipped because they already exist (merge) or repeat within the file
+  duplicates: HistoryEntry[]
+}
+
+const historyEntrySchema: z.ZodType<HistoryEntry> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  label: z.string(),
+  text: z.string().min(1),
+  design: qrDesignSchema,
+  logoUrl: z.string().default(''),
+  thumbnail: z.string().refine((value) => !value || value.startsWith('data:image/'), 'Thumbnail must be an image data URL').default(''),
+  tags: z.array(z.string()).default([]),
+  favorite: z.boolean().default(false),
+  createdAt: z.number(),
+  updatedAt: z.number()
+})
+
+const historyFileSchema = z.object({
+  format: z.literal(FILE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string().optional(),
+  // Rows are validated one by one so a bad row doesn't reject the whole file
+  entries: z.array(z.unknown())
+})
+
+export function serializeHistory(entries: HistoryEntry[]): string {
+  return JSON.stringify({
+    format: FILE_FORMAT,
+    version: HISTORY_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries
+  }, null, 2)
+}
+
+const describeIssue = (issue: z.core.$ZodIssue) =>
+  issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+
+// Throws with a user-facing message when the file itself is unusable;
+// individual bad rows are collected in `invalid` instead.
+export function parseHistoryFile(text: string): ParsedHistoryFile {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const file = historyFileSchema.safeParse(json)
+  if (!file.success) {
+    throw new Error('The file is not a QR code history export')
+  }
+  if (file.data.version > HISTORY_FILE_VERSION) {
+    throw new Error(`The file was exported by a newer version (v${file.data.version}) of this app`)
+  }
+
+  const entries: HistoryEntry[] = []
+  const invalid: InvalidRow[] = []
+
+  file.data.entries.forEach((row, index) => {
+    const parsed = historyEntrySchema.safeParse(row)
+    if (parsed.success) {
+      entries.push(parsed.data)
+    } else {
+      invalid.push({ row: index + 1, message: describeIssue(parsed.error.issues[0]) })
+    }
+  })
+
+  return { entries, invalid }
+}
+
+// An entry is a duplicate when its id or its exact content and settings are already present
+export function planHistoryImport(existing: HistoryEntry[], incoming: HistoryEntry[], mode: ImportMode): ImportPlan {
+  const kept: HistoryEntry[] = mode === 'merge' ? [...existing] : []
+  const toWrite: HistoryEntry[] = []
+  const duplicates: HistoryEntry[] = []
+
+  for (const entry of incoming) {
+    const seen = kept.some((item) => item.id === entry.id || isSameDesign(item, entry.text, entry.design))
+    if (seen) {
+      duplicates.push(entry)
+    } else {
+      kept.push(entry)
+      toWrite.push(entry)
+    }
+  }
+
+  return { toWrite, duplicates }
+}
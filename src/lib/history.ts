@@ -0,0 +1,181 @@
+import { DEFAULT_QR_DESIGN, withDesignDefaults, type QRDesign } from './design'
+
+// A generated code saved to the on-device library
+export interface HistoryEntry {
+  id: string
+  // User-editable title, initially the payload label
+  name: string
+  // Payload summary and encoded text at generation time
+  label: string
+  text: string
+  design: QRDesign
+  // Logo that was actually drawn; uploaded logos are kept as data URLs
+  logoUrl: string
+  // Small PNG data URL, empty for entries migrated from the old recent list
+  thumbnail: string
+  tags: string[]
+  favorite: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+const DB_NAME = 'qr-code-generator'
+const DB_VERSION = 1
+const STORE = 'history'
+// The 5-item list this library replaces
+const LEGACY_RECENT_KEY = 'qr-recent-urls'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode)
+    const request = createRequest(transaction.objectStore(STORE))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+const byMostRecent = (a: HistoryEntry, b: HistoryEntry) => b.updatedAt - a.updatedAt
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await runRequest<HistoryEntry[]>('readonly', (store) => store.getAll())
+  return entries
+    .map((entry) => ({ ...entry, design: withDesignDefaults(entry.design) }))
+    .sort(byMostRecent)
+}
+
+export async function putHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(entry))
+}
+
+// Writes many entries in one transaction; `replaceExisting` clears the library first
+export async function putHistoryEntries(entries: HistoryEntry[], replaceExisting = false): Promise<void> {
+  const db = await openDatabase()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite')
+    const store = transaction.objectStore(STORE)
+    if (replaceExisting) store.clear()
+    entries.forEach((entry) => store.put(entry))
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(id))
+}
+
+export async function clearHistory(): Promise<void> {
+  await runRequest('readwrite', (store) => store.clear())
+}
+
+export function createHistoryEntry(
+  fields: Pick<HistoryEntry, 'label' | 'text' | 'design' | 'logoUrl' | 'thumbnail'>,
+  timestamp = Date.now()
+): HistoryEntry {
+  return {
+    id: crypto.randomUUID(),
+    name: fields.label,
+    tags: [],
+    favorite: false,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields
+  }
+}
+
+// Deep equality that ignores key order (designs parsed from files and links list
+// their keys in schema order) and treats undefined properties as absent
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const definedKeys = (value: object) => Object.keys(value).filter((key) => value[key as keyof typeof value] !== undefined)
+  const keys = definedKeys(a)
+  if (keys.length !== definedKeys(b).length) return false
+  return keys.every((key) => isSameValue(a[key as keyof typeof a], b[key as keyof typeof b]))
+}
+
+// Same content rendered with the same settings
+export function isSameDesign(entry: HistoryEntry, text: string, design: QRDesign) {
+  return entry.text === text && isSameValue(entry.design, design)
+}
+
+let migration: Promise<void> | null = null
+
+async function importRecentUrls() {
+  const saved = localStorage.getItem(LEGACY_RECENT_KEY)
+  if (!saved) return
+
+  let recent: { url?: unknown; timestamp?: unknown }[] = []
+  try {
+    recent = JSON.parse(saved)
+  } catch (e) {
+    console.error('Failed to parse recent URLs:', e)
+  }
+
+  for (const item of Array.isArray(recent) ? recent : []) {
+    if (typeof item?.url !== 'string') continue
+    await putHistoryEntry(createHistoryEntry({
+      label: item.url,
+      text: item.url,
+      design: { ...DEFAULT_QR_DESIGN, url: item.url },
+      logoUrl: '',
+      thumbnail: ''
+    }, typeof item.timestamp === 'number' ? item.timestamp : Date.now()))
+  }
+  localStorage.removeItem(LEGACY_RECENT_KEY)
+}
+
+// Moves the old localStorage recent URLs into the library (once per page load,
+// even if called concurrently), then lists everything newest first
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  if (!migration) {
+    migration = importRecentUrls().catch((e) => console.error('Failed to migrate recent URLs:', e))
+  }
+  await migration
+  return listHistory()
+}
+
+// Splits a comma-separated tag input into unique, trimmed tags
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map((tag) => tag.trim()).filter(Boolean))]
+}
+
+// Case-insensitive match on name, payload label, encoded text and tags
+export function filterHistory(entries: HistoryEntry[], query: string, favoritesOnly: boolean) {
+  const needle = query.trim().toLowerCase()
+
+  return entries.filter((entry) => {
+    if (favoritesOnly && !entry.favorite) return false
+    if (!needle) return true
+    return [entry.name, entry.label, entry.text, ...entry.tags]
+      .some((value) => value.toLowerCase().includes(needle))
+  })
+}
@@ -0,0 +1,62 @@
+// Loads an image element, rejecting after `timeoutMs` so a slow host can't stall generation
+export function loadImage(src: string, timeoutMs = 8000): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+
+    // Don't set crossOrigin for data URLs
+    if (!src.startsWith('data:')) {
+      img.crossOrigin = 'anonymous'
+    }
+
+    const timeoutId = setTimeout(() => {
+      reject(new Error(`Image load timeout: ${src}`))
+    }, timeoutMs)
+
+    img.onload = () => {
+      clearTimeout(timeoutId)
+      resolve(img)
+    }
+
+    img.onerror = () => {
+      clearTimeout(timeoutId)
+      reject(new Error(`Failed to load image: ${src}`))
+    }
+
+    img.src = src
+  })
+}
+
+// Inlines a remote image as a PNG data URL so exported files don't depend on the network.
+// Falls back to the original URL when the host doesn't allow CORS reads.
+export async function toEmbeddableDataUrl(src: string): Promise<string> {
+  if (src.startsWith('data:')) return src
+
+  try {
+    const img = await loadImage(src)
+    const canvas = document.createElement('canvas')
+    canvas.width = img.naturalWidth
+    canvas.height = img.naturalHeight
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return src
+
+    ctx.drawImage(img, 0, 0)
+    return canvas.toDataURL('image/png')
+  } catch (error) {
+    console.warn('⚠️ Could not inline image, keeping remote URL:', src, error)
+    return src
+  }
+}
+
+// Downscales an image to a square PNG data URL for lists and previews
+export async function createThumbnail(src: string, size = 96): Promise<string> {
+  const img = await loadImage(src)
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas context not available')
+
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(img, 0, 0, size, size)
+  return canvas.toDataURL('image/png')
+}
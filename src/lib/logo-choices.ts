@@ -0,0 +1,80 @@
+import { z } from 'zod'
+import { editLogo, DEFAULT_LOGO_EDITS, LOGO_FIT_LABELS, LOGO_RECOLOR_LABELS, LOGO_ZOOM_RANGE, type LogoEdits } from './logo-edit'
+import { isHexColor } from './color'
+import { detectLogoCandidates, type LoadedLogoCandidate } from './logo-resolver'
+
+// The logo a user picked for a site, reused whenever a URL on it is generated
+export interface LogoChoice {
+  // Candidate URL as declared by the page (not the proxied `src`)
+  url: string
+  edits: LogoEdits
+}
+
+const LOGO_CHOICES_KEY = 'qr-logo-choices'
+
+const hexColor = z.string().trim().refine(isHexColor, 'Invalid color')
+
+const logoChoiceSchema = z.object({
+  url: z.string().min(1),
+  edits: z.object({
+    zoom: z.number().min(LOGO_ZOOM_RANGE.min).max(LOGO_ZOOM_RANGE.max),
+    offsetX: z.number().min(-1).max(1),
+    offsetY: z.number().min(-1).max(1),
+    fit: z.enum(Object.keys(LOGO_FIT_LABELS) as [LogoEdits['fit'], ...LogoEdits['fit'][]]),
+    keyColor: hexColor.nullable(),
+    keyTolerance: z.number().min(0).max(1),
+    recolor: z.enum(Object.keys(LOGO_RECOLOR_LABELS) as [LogoEdits['recolor'], ...LogoEdits['recolor'][]]),
+    tintColor: hexColor,
+    cornerRadius: z.number().min(0).max(0.5)
+  })
+})
+
+function getDomain(pageUrl: string): string | null {
+  try {
+    return new URL(pageUrl).hostname || null
+  } catch {
+    return null
+  }
+}
+
+function loadChoices(): Record<string, LogoChoice> {
+  const saved = localStorage.getItem(LOGO_CHOICES_KEY)
+  if (!saved) return {}
+
+  try {
+    const parsed = z.record(z.string(), logoChoiceSchema).safeParse(JSON.parse(saved))
+    return parsed.success ? parsed.data : {}
+  } catch (e) {
+    console.error('Failed to parse logo choices:', e)
+    return {}
+  }
+}
+
+export function loadLogoChoice(pageUrl: string): LogoChoice | null {
+  const domain = getDomain(pageUrl)
+  return domain ? loadChoices()[domain] ?? null : null
+}
+
+export function saveLogoChoice(pageUrl: string, choice: LogoChoice) {
+  const domain = getDomain(pageUrl)
+  if (!domain) return
+  localStorage.setItem(LOGO_CHOICES_KEY, JSON.stringify({ ...loadChoices(), [domain]: choice }))
+}
+
+// The remembered candidate for the page's domain when it's still on offer,
+// otherwise the best-ranked one unedited
+export function pickLogoCandidate(
+  pageUrl: string,
+  candidates: LoadedLogoCandidate[]
+): { candidate: LoadedLogoCandidate; edits: LogoEdits } | null {
+  const choice = loadLogoChoice(pageUrl)
+  const remembered = choice && candidates.find((candidate) => candidate.url === choice.url)
+  if (remembered) return { candidate: remembered, edits: choice.edits }
+  return candidates.length > 0 ? { candidate: candidates[0], edits: DEFAULT_LOGO_EDITS } : null
+}
+
+// Detects the page's logos and returns the chosen one, edited, ready to draw
+export async function findLogo(pageUrl: string): Promise<string | null> {
+  const picked = pickLogoCandidate(pageUrl, await detectLogoCandidates(pageUrl))
+  return picked ? editLogo(picked.candidate.src, picked.edits) : null
+}
@@ -0,0 +1,157 @@
+import { parseHexColor, type RGB } from './color'
+import { loadImage } from './image'
+import { roundedRect } from './qr-shapes'
+
+// 'contain' letterboxes the whole image, 'cover' fills the square and crops the overflow
+export type LogoFit = 'contain' | 'cover'
+export type LogoRecolor = 'original' | 'monochrome' | 'tint'
+
+export const LOGO_FIT_LABELS: Record<LogoFit, string> = {
+  contain: 'Fit whole logo',
+  cover: 'Fill square'
+}
+
+export const LOGO_RECOLOR_LABELS: Record<LogoRecolor, string> = {
+  original: 'Original colors',
+  monochrome: 'Monochrome',
+  tint: 'Tint'
+}
+
+// Edits applied to a logo before it is drawn on the code. The image is fitted
+// into a square, zoomed around its centre, then panned; offsets run from -1 to 1
+// across the zoomed-in slack.
+export interface LogoEdits {
+  zoom: number
+  offsetX: number
+  offsetY: number
+  fit: LogoFit
+  // Pixels close to this color become transparent; null keeps the background
+  keyColor: string | null
+  // 0–1 share of the RGB distance range treated as "close"
+  keyTolerance: number
+  recolor: LogoRecolor
+  tintColor: string
+  // Corner radius as a share of the side; 0.5 gives a circle
+  cornerRadius: number
+}
+
+export const DEFAULT_LOGO_EDITS: LogoEdits = {
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  fit: 'contain',
+  keyColor: null,
+  keyTolerance: 0.15,
+  recolor: 'original',
+  tintColor: '#1f2937',
+  cornerRadius: 0
+}
+
+export const LOGO_ZOOM_RANGE = { min: 1, max: 4 }
+
+// Larger sources are downscaled; the logo never covers more than ~360px of a code
+const MAX_OUTPUT_SIZE = 512
+// sqrt(3 * 255²), the largest RGB distance
+const MAX_COLOR_DISTANCE = 441.67
+// Edited results kept in memory, so re-rendering with unchanged edits is instant
+const CACHE_LIMIT = 24
+
+export const isDefaultEdits = (edits: LogoEdits) =>
+  (Object.keys(DEFAULT_LOGO_EDITS) as (keyof LogoEdits)[]).every((key) => edits[key] === DEFAULT_LOGO_EDITS[key])
+
+// How far the view centre moves, as a share of the square's side
+export const getCropShift = (edits: Pick<LogoEdits, 'zoom' | 'offsetX' | 'offsetY'>) => ({
+  x: (-edits.offsetX * (edits.zoom - 1)) / 2,
+  y: (-edits.offsetY * (edits.zoom - 1)) / 2
+})
+
+// Makes pixels near `key` transparent, feathering the edge over half the tolerance again
+export function removeColorKey(data: Uint8ClampedArray, key: RGB, tolerance: number) {
+  const hard = tolerance * MAX_COLOR_DISTANCE
+  const soft = hard * 1.5
+  for (let i = 0; i < data.length; i += 4) {
+    const distance = Math.hypot(data[i] - key.r, data[i + 1] - key.g, data[i + 2] - key.b)
+    if (distance <= hard) {
+      data[i + 3] = 0
+    } else if (distance < soft) {
+      data[i + 3] = Math.round(data[i + 3] * ((distance - hard) / (soft - hard)))
+    }
+  }
+}
+
+// Monochrome maps to grey by luminance; tint maps dark pixels to the tint color and
+// keeps light ones light, so logos on a white background stay readable
+export function recolorPixels(data: Uint8ClampedArray, mode: LogoRecolor, tint: RGB) {
+  if (mode === 'original') return
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255
+    if (mode === 'monochrome') {
+      data[i] = data[i + 1] = data[i + 2] = Math.round(luminance * 255)
+    } else {
+      data[i] = Math.round(tint.r + (255 - tint.r) * luminance)
+      data[i + 1] = Math.round(tint.g + (255 - tint.g) * luminance)
+      data[i + 2] = Math.round(tint.b + (255 - tint.b) * luminance)
+    }
+  }
+}
+
+async function renderEdits(src: string, edits: LogoEdits): Promise<string> {
+  const image = await loadImage(src)
+  const naturalWidth = image.naturalWidth || MAX_OUTPUT_SIZE
+  const naturalHeight = image.naturalHeight || MAX_OUTPUT_SIZE
+  const size = Math.min(MAX_OUTPUT_SIZE, Math.max(naturalWidth, naturalHeight))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas context not available')
+
+  if (edits.cornerRadius > 0) {
+    const radius = size * Math.min(0.5, edits.cornerRadius)
+    ctx.clip(new Path2D(roundedRect(0, 0, size, size, [radius, radius, radius, radius])))
+  }
+
+  // Fit the image into the zoomed square, keeping its aspect ratio, then shift it
+  const box = size * edits.zoom
+  const pick = edits.fit === 'cover' ? Math.max : Math.min
+  const scale = pick(box / naturalWidth, box / naturalHeight)
+  const width = naturalWidth * scale
+  const height = naturalHeight * scale
+  const shift = getCropShift(edits)
+
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(image, size / 2 + shift.x * size - width / 2, size / 2 + shift.y * size - height / 2, width, height)
+
+  const key = edits.keyColor ? parseHexColor(edits.keyColor) : null
+  if (key || edits.recolor !== 'original') {
+    const pixels = ctx.getImageData(0, 0, size, size)
+    if (key) removeColorKey(pixels.data, key, edits.keyTolerance)
+    recolorPixels(pixels.data, edits.recolor, parseHexColor(edits.tintColor) ?? { r: 0, g: 0, b: 0 })
+    ctx.putImageData(pixels, 0, 0)
+  }
+
+  return canvas.toDataURL('image/png')
+}
+
+const cache = new Map<string, Promise<string>>()
+
+// Applies the edits and returns the result as a square PNG data URL, cached per
+// source and edits. Hosts without CORS taint the canvas; the original source is
+// returned then so the logo still shows.
+export function editLogo(src: string, edits: LogoEdits): Promise<string> {
+  if (isDefaultEdits(edits)) return Promise.resolve(src)
+
+  const cacheKey = `${JSON.stringify(edits)}|${src}`
+  const cached = cache.get(cacheKey)
+  if (cached) return cached
+
+  const result = renderEdits(src, edits).catch((error) => {
+    console.warn('⚠️ Could not edit logo, using it unedited:', error)
+    cache.delete(cacheKey)
+    return src
+  })
+  cache.set(cacheKey, result)
+  if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value as string)
+  return result
+}
@@ -0,0 +1,128 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Window } from 'happy-dom'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { parseIconSizes, resolveLogoCandidates } from './logo-resolver'
+
+// Node's fetch talks to the stub server; only the parser comes from happy-dom.
+// Parsed documents take the app page's URL, as they do in the browser.
+vi.stubGlobal('DOMParser', new Window({ url: 'http://localhost:5173/' }).DOMParser)
+
+// Pages the stub site serves; anything else is a 404, and /slow never answers
+const ROUTES: Record<string, { type: string; body: string }> = {
+  '/': {
+    type: 'text/html',
+    body: `<!doctype html><html><head>
+      <link rel="icon" href="/favicon.png" sizes="32x32">
+      <link rel="apple-touch-icon" href="icons/touch.png" sizes="180x180">
+      <link rel="manifest" href="/app/site.webmanifest">
+      <meta property="og:image" content="/social.jpg">
+      <meta property="og:image:width" content="1200">
+    </head><body></body></html>`
+  },
+  '/app/site.webmanifest': {
+    type: 'application/manifest+json',
+    body: JSON.stringify({
+      icons: [
+        { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+        { src: 'mono.png', sizes: '512x512', purpose: 'monochrome' }
+      ]
+    })
+  },
+  '/docs/page': {
+    type: 'text/html',
+    body: `<html><head>
+      <base href="/assets/">
+      <link rel="shortcut icon" href="logo.svg" sizes="any">
+      <link rel="manifest" href="/missing.webmanifest">
+    </head></html>`
+  }
+}
+
+let server: Server
+let origin: string
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/slow') return
+    const route = ROUTES[req.url ?? '']
+    res.writeHead(route ? 200 : 404, { 'Content-Type': route?.type ?? 'text/plain' })
+    res.end(route?.body ?? 'Not found')
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise((resolve) => server.close(resolve))
+})
+
+// Fetch the stub site directly rather than through /api/fetch
+const resolve = (path: string, fetchTimeoutMs?: number) =>
+  resolveLogoCandidates(`${origin}${path}`, { proxyTemplate: '', fetchTimeoutMs })
+
+const bySource = async (path: string) =>
+  Object.fromEntries((await resolve(path)).map((candidate) => [candidate.url.replace(origin, ''), candidate.source]))
+
+describe('resolveLogoCandidates', () => {
+  it('finds the favicon, apple-touch-icon, manifest icons and og:image', async () => {
+    expect(await bySource('/')).toMatchObject({
+      '/favicon.png': 'icon',
+      '/icons/touch.png': 'apple-touch-icon',
+      '/app/icon-512.png': 'manifest',
+      '/social.jpg': 'og:image'
+    })
+  })
+
+  it('reads declared sizes and types', async () => {
+    const candidates = await resolve('/')
+    expect(candidates.find((candidate) => candidate.source === 'apple-touch-icon')).toMatchObject({
+      declaredSize: 180,
+      type: 'image/png'
+    })
+    expect(candidates.find((candidate) => candidate.source === 'og:image')).toMatchObject({
+      declaredSize: 1200,
+      type: 'image/jpeg'
+    })
+  })
+
+  it('skips monochrome manifest icons', async () => {
+    expect(Object.keys(await bySource('/'))).not.toContain('/app/mono.png')
+  })
+
+  it('ranks the large manifest icon above the og:image', async () => {
+    const urls = (await resolve('/')).map((candidate) => candidate.url.replace(origin, ''))
+    expect(urls.indexOf('/app/icon-512.png')).toBeLessThan(urls.indexOf('/social.jpg'))
+  })
+
+  it('resolves relative hrefs against the page base and the manifest URL', async () => {
+    const sources = await bySource('/docs/page')
+    expect(sources['/assets/logo.svg']).toBe('icon')
+    // The manifest 404s without hiding the other candidates
+    expect(sources['/favicon.ico']).toBe('well-known')
+  })
+
+  it('falls back to well-known locations when the page times out', async () => {
+    const started = Date.now()
+    const candidates = await resolve('/slow', 200)
+
+    expect(Date.now() - started).toBeLessThan(2000)
+    expect(candidates.length).toBeGreaterThan(0)
+    expect(candidates.every((candidate) => candidate.source === 'well-known')).toBe(true)
+  })
+
+  it('returns nothing for non-web URLs', async () => {
+    expect(await resolveLogoCandidates('ftp://example.com/', { proxyTemplate: '' })).toEqual([])
+    expect(await resolveLogoCandidates('not a url', { proxyTemplate: '' })).toEqual([])
+  })
+})
+
+describe('parseIconSizes', () => {
+  it('takes the largest edge and treats "any" as scalable', () => {
+    expect(parseIconSizes('16x16 32x32')).toBe(32)
+    expect(parseIconSizes('any')).toBe(1024)
+    expect(parseIconSizes('bogus')).toBe(0)
+    expect(parseIconSizes(null)).toBe(0)
+  })
+})
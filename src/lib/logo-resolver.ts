@@ -0,0 +1,315 @@
+import { loadImage } from './image'
+
+// Where a candidate was declared on the page
+export type LogoSource = 'manifest' | 'apple-touch-icon' | 'icon' | 'og:image' | 'well-known'
+
+export const LOGO_SOURCE_LABELS: Record<LogoSource, string> = {
+  manifest: 'Web app manifest',
+  'apple-touch-icon': 'Apple touch icon',
+  icon: 'Page icon',
+  'og:image': 'Open Graph image',
+  'well-known': 'Site root'
+}
+
+export interface LogoCandidate {
+  // Absolute URL as declared by the page
+  url: string
+  source: LogoSource
+  // Largest edge from a `sizes` attribute or manifest entry; 0 when not declared
+  declaredSize: number
+  // MIME type when declared or implied by the extension, otherwise ''
+  type: string
+}
+
+export interface LoadedLogoCandidate extends LogoCandidate {
+  // URL the browser can load, routed through the fetch proxy when one is configured
+  src: string
+  width: number
+  height: number
+}
+
+// What every resolver gets to work with; the page is fetched once and shared
+export interface LogoPageContext {
+  pageUrl: URL
+  // Null when the page couldn't be fetched (no proxy and no CORS, or offline)
+  document: Document | null
+  fetchText: (url: string) => Promise<string>
+}
+
+// Extension point: each resolver reads one kind of declaration from the page
+export interface LogoResolver {
+  name: string
+  resolve: (context: LogoPageContext) => Promise<LogoCandidate[]>
+}
+
+// Proxy URL template with a `{url}` placeholder for the encoded target, e.g.
+// `https://example.com/fetch?url={url}`. The dev and preview servers and the
+// standalone server (src/server) all serve `/api/fetch`; hosts serving only the
+// static build set VITE_LOGO_PROXY to their own proxy.
+export const LOGO_PROXY_TEMPLATE: string = import.meta.env.VITE_LOGO_PROXY ?? '/api/fetch?url={url}'
+
+const FETCH_TIMEOUT_MS = 6000
+const IMAGE_TIMEOUT_MS = 5000
+// Declared as `sizes="any"`, which in practice means a scalable SVG
+const ANY_SIZE = 1024
+
+export function proxiedUrl(url: string, proxyTemplate = LOGO_PROXY_TEMPLATE) {
+  return proxyTemplate ? proxyTemplate.replace('{url}', encodeURIComponent(url)) : url
+}
+
+function createFetchText(proxyTemplate: string, timeoutMs: number) {
+  return async (url: string) => {
+    const response = await fetch(proxiedUrl(url, proxyTemplate), { signal: AbortSignal.timeout(timeoutMs) })
+    if (!response.ok) throw new Error(`Request failed with ${response.status}: ${url}`)
+    return response.text()
+  }
+}
+
+function absoluteUrl(href: string | null | undefined, base: URL | string): string | null {
+  if (!href?.trim()) return null
+  try {
+    const url = new URL(href.trim(), base)
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'data:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+// Relative hrefs resolve against the page's <base> element, else the page. The
+// parsed document's own baseURI is the app's URL, not the page's.
+function documentBase(document: Document, pageUrl: URL): string {
+  return absoluteUrl(document.querySelector('base[href]')?.getAttribute('href'), pageUrl) ?? pageUrl.href
+}
+
+// Largest edge of a `sizes` value such as "16x16 32x32" or "any"
+export function parseIconSizes(sizes: string | null | undefined): number {
+  if (!sizes) return 0
+  return sizes.trim().toLowerCase().split(/\s+/).reduce((largest, size) => {
+    if (size === 'any') return Math.max(largest, ANY_SIZE)
+    const [width, height] = size.split('x').map(Number)
+    return Number.isFinite(width) && Number.isFinite(height) ? Math.max(largest, width, height) : largest
+  }, 0)
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif'
+}
+
+function guessType(url: string, declared?: string | null): string {
+  if (declared) return declared.toLowerCase()
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(new URL(url).pathname)?.[1]?.toLowerCase()
+  return extension ? EXTENSION_TYPES[extension] ?? '' : ''
+}
+
+export const linkIconResolver: LogoResolver = {
+  name: 'link-icon',
+  async resolve({ document, pageUrl }) {
+    if (!document) return []
+    const base = documentBase(document, pageUrl)
+
+    return Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel][href]')).flatMap((link) => {
+      const rels = (link.getAttribute('rel') ?? '').toLowerCase().split(/\s+/)
+      const source: LogoSource | null = rels.some((rel) => rel.startsWith('apple-touch-icon'))
+        ? 'apple-touch-icon'
+        : rels.includes('icon') ? 'icon' : null
+      const url = absoluteUrl(link.getAttribute('href'), base)
+      if (!source || !url) return []
+
+      return [{
+        url,
+        source,
+        declaredSize: parseIconSizes(link.getAttribute('sizes')),
+        type: guessType(url, link.getAttribute('type'))
+      }]
+    })
+  }
+}
+
+export const openGraphResolver: LogoResolver = {
+  name: 'open-graph',
+  async resolve({ document, pageUrl }) {
+    if (!document) return []
+    const meta = document.querySelector('meta[property="og:image"], meta[name="og:image"]')
+    const url = absoluteUrl(meta?.getAttribute('content'), documentBase(document, pageUrl))
+    if (!url) return []
+
+    const width = Number(document.querySelector('meta[property="og:image:width"]')?.getAttribute('content'))
+    const type = document.querySelector('meta[property="og:image:type"]')?.getAttribute('content')
+    return [{ url, source: 'og:image', declaredSize: Number.isFinite(width) ? width : 0, type: guessType(url, type) }]
+  }
+}
+
+interface ManifestIcon {
+  src?: unknown
+  sizes?: unknown
+  type?: unknown
+  purpose?: unknown
+}
+
+export const manifestResolver: LogoResolver = {
+  name: 'manifest',
+  async resolve({ document, pageUrl, fetchText }) {
+    if (!document) return []
+    const manifestUrl = absoluteUrl(
+      document.querySelector('link[rel~="manifest"]')?.getAttribute('href'),
+      documentBase(document, pageUrl)
+    )
+    if (!manifestUrl) return []
+
+    const manifest: { icons?: ManifestIcon[] } = JSON.parse(await fetchText(manifestUrl))
+    if (!Array.isArray(manifest.icons)) return []
+
+    return manifest.icons.flatMap((icon) => {
+      const url = typeof icon.src === 'string' ? absoluteUrl(icon.src, manifestUrl) : null
+      // Monochrome icons are silhouettes meant for system tinting
+      if (!url || (typeof icon.purpose === 'string' && icon.purpose.split(/\s+/).every((p) => p === 'monochrome'))) {
+        return []
+      }
+      return [{
+        url,
+        source: 'manifest' as const,
+        declaredSize: parseIconSizes(typeof icon.sizes === 'string' ? icon.sizes : null),
+        type: guessType(url, typeof icon.type === 'string' ? icon.type : null)
+      }]
+    })
+  }
+}
+
+// Conventional locations browsers probe when the page declares nothing
+export const wellKnownResolver: LogoResolver = {
+  name: 'well-known',
+  async resolve({ pageUrl }) {
+    return ['/apple-touch-icon.png', '/favicon.svg', '/favicon.png', '/favicon.ico'].map((path) => {
+      const url = new URL(path, pageUrl.origin).href
+      return { url, source: 'well-known' as const, declaredSize: 0, type: guessType(url) }
+    })
+  }
+}
+
+export const DEFAULT_LOGO_RESOLVERS: LogoResolver[] = [
+  linkIconResolver,
+  manifestResolver,
+  openGraphResolver,
+  wellKnownResolver
+]
+
+const SOURCE_WEIGHT: Record<LogoSource, number> = {
+  manifest: 1,
+  'apple-touch-icon': 0.95,
+  icon: 0.9,
+  'well-known': 0.7,
+  // Usually a wide banner or photo rather than a mark
+  'og:image': 0.5
+}
+
+const TYPE_WEIGHT: Record<string, number> = {
+  'image/svg+xml': 1,
+  'image/png': 0.9,
+  'image/webp': 0.9,
+  'image/gif': 0.6,
+  'image/x-icon': 0.5,
+  'image/vnd.microsoft.icon': 0.5,
+  'image/jpeg': 0.4
+}
+
+// Logos are drawn at up to a third of a 1024px code, so bigger stops helping here
+const TARGET_SIZE = 256
+
+// Candidates before or after loading; loaded ones know their intrinsic size
+type RankableCandidate = LogoCandidate & { width?: number; height?: number }
+
+function scoreCandidate({ source, type, declaredSize, width = 0, height = 0 }: RankableCandidate) {
+  const size = Math.min(width, height) || declaredSize
+  const sizeScore = size ? Math.min(size, TARGET_SIZE) / TARGET_SIZE : 0.25
+  // Non-square images get letterboxed inside the logo pad
+  const aspect = width && height ? Math.min(width, height) / Math.max(width, height) : 1
+
+  return SOURCE_WEIGHT[source] * (TYPE_WEIGHT[type] ?? 0.7) * (0.4 + 0.6 * sizeScore) * aspect
+}
+
+// Best candidate first; intrinsic dimensions win over declared sizes when known
+export function rankLogoCandidates<T extends RankableCandidate>(candidates: T[]): T[] {
+  return [...candidates].sort((a, b) => scoreCandidate(b) - scoreCandidate(a))
+}
+
+export interface ResolveLogoOptions {
+  resolvers?: LogoResolver[]
+  proxyTemplate?: string
+  // Per request for the page and manifest
+  fetchTimeoutMs?: number
+}
+
+// Collects every logo the page declares, deduplicated and ranked. Resolvers that
+// fail are skipped, so one broken manifest doesn't hide the page's icons.
+export async function resolveLogoCandidates(
+  pageUrlString: string,
+  {
+    resolvers = DEFAULT_LOGO_RESOLVERS,
+    proxyTemplate = LOGO_PROXY_TEMPLATE,
+    fetchTimeoutMs = FETCH_TIMEOUT_MS
+  }: ResolveLogoOptions = {}
+): Promise<LogoCandidate[]> {
+  let pageUrl: URL
+  try {
+    pageUrl = new URL(pageUrlString)
+  } catch {
+    return []
+  }
+  if (pageUrl.protocol !== 'http:' && pageUrl.protocol !== 'https:') return []
+
+  const fetchText = createFetchText(proxyTemplate, fetchTimeoutMs)
+  let document: Document | null = null
+  try {
+    document = new DOMParser().parseFromString(await fetchText(pageUrl.href), 'text/html')
+  } catch (error) {
+    console.log('❌ Could not fetch page for logo detection:', pageUrl.href, error)
+  }
+
+  const context: LogoPageContext = { pageUrl, document, fetchText }
+  const results = await Promise.allSettled(resolvers.map((resolver) => resolver.resolve(context)))
+
+  const byUrl = new Map<string, LogoCandidate>()
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.log(`❌ Logo resolver "${resolvers[index].name}" failed:`, result.reason)
+      return
+    }
+    for (const candidate of result.value) {
+      // The first resolver to declare a URL wins; later ones add nothing new
+      if (!byUrl.has(candidate.url)) byUrl.set(candidate.url, candidate)
+    }
+  })
+
+  return rankLogoCandidates([...byUrl.values()])
+}
+
+// Loads each candidate to learn its real size, dropping the ones that don't load
+export async function loadLogoCandidates(
+  candidates: LogoCandidate[],
+  proxyTemplate = LOGO_PROXY_TEMPLATE
+): Promise<LoadedLogoCandidate[]> {
+  const loaded = await Promise.all(candidates.map(async (candidate) => {
+    const src = candidate.url.startsWith('data:') ? candidate.url : proxiedUrl(candidate.url, proxyTemplate)
+    try {
+      const image = await loadImage(src, IMAGE_TIMEOUT_MS)
+      return { ...candidate, src, width: image.naturalWidth, height: image.naturalHeight }
+    } catch {
+      return null
+    }
+  }))
+
+  return rankLogoCandidates(loaded.filter((candidate): candidate is LoadedLogoCandidate => candidate !== null))
+}
+
+// Every loadable logo for a page, best first
+export async function detectLogoCandidates(pageUrl: string, options: ResolveLogoOptions = {}) {
+  const candidates = await resolveLogoCandidates(pageUrl, options)
+  console.log('🔍 Logo candidates:', candidates.map((candidate) => candidate.url))
+  return loadLogoCandidates(candidates, options.proxyTemplate)
+}
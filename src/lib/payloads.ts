@@ -0,0 +1,448 @@
+import { z } from 'zod'
+
+export type PayloadType = 'url' | 'wifi' | 'contact' | 'email' | 'sms' | 'phone' | 'geo' | 'event'
+
+export type PayloadValues = Record<string, string | boolean>
+
+export interface PayloadField {
+  name: string
+  label: string
+  kind: 'text' | 'textarea' | 'select' | 'checkbox' | 'datetime' | 'number' | 'password'
+  placeholder?: string
+  options?: { value: string; label: string }[]
+}
+
+interface PayloadDefinition<T> {
+  label: string
+  fields: PayloadField[]
+  defaults: PayloadValues
+  schema: z.ZodType<T>
+  encode: (data: T) => string
+  // Short human-readable summary, used for captions and history instead of the raw payload
+  describe: (data: T) => string
+}
+
+export type PayloadResult =
+  | { ok: true; text: string; label: string }
+  | { ok: false; errors: Record<string, string> }
+
+// --- Escaping ---------------------------------------------------------------
+
+// WIFI: and MECARD: both use backslash escapes for their delimiter characters
+const escapeWifi = (value: string) => value.replace(/([\\;,":])/g, '\\$1')
+const escapeMecard = (value: string) => value.replace(/([\\;,:])/g, '\\$1')
+
+// RFC 6350 / RFC 5545 TEXT values
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r\n|\r|\n/g, '\\n')
+
+const utf8Length = (value: string) => new TextEncoder().encode(value).length
+
+// Folds content lines longer than 75 octets, never splitting a UTF-8 sequence
+function foldLine(line: string) {
+  if (utf8Length(line) <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74 // continuation lines start with a space
+    if (utf8Length(current + char) > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const contentLines = (lines: (string | null)[]) =>
+  lines.filter((line): line is string => line !== null).map(foldLine).join('\r\n')
+
+const normalizePhone = (value: string) => value.replace(/[^\d+]/g, '')
+
+// --- Shared field validators ------------------------------------------------
+
+const phoneNumber = (message: string) => z.string().trim().regex(/^\+?[\d\s().-]{3,}$/, message)
+
+const optionalEmail = z.string().trim().refine(
+  (value) => !value || z.email().safeParse(value).success,
+  'Enter a valid email address'
+)
+
+const optionalUrl = z.string().trim().refine(
+  (value) => {
+    if (!value) return true
+    try {
+      new URL(value)
+      return true
+    } catch {
+      return false
+    }
+  },
+  'Enter a full URL, e.g. https://example.com'
+)
+
+// --- Payload definitions ------------------------------------------------------
+
+// Raw keys rather than passphrases: 64 hex digits for WPA, 10 or 26 for WEP
+const isWifiHexKey = (data: { encryption: string; password: string }) =>
+  /^[0-9a-f]+$/i.test(data.password) &&
+  (data.encryption === 'WPA' ? data.password.length === 64 : [10, 26].includes(data.password.length))
+
+const wifiSchema = z.object({
+  ssid: z.string().trim().min(1, 'Network name is required').max(32, 'Network names are at most 32 characters'),
+  encryption: z.enum(['WPA', 'WEP', 'nopass']),
+  password: z.string(),
+  hidden: z.boolean()
+}).superRefine((data, ctx) => {
+  if (data.encryption === 'WPA' && !isWifiHexKey(data) && (data.password.length < 8 || data.password.length > 63)) {
+    ctx.addIssue({ code: 'custom', path: ['password'], message: 'WPA passwords are 8–63 characters (or a 64-digit hex key)' })
+  }
+  if (data.encryption === 'WEP' && ![5, 10, 13, 26].includes(data.password.length)) {
+    ctx.addIssue({ code: 'custom', path: ['password'], message: 'WEP keys are 5 or 13 characters (10 or 26 hex digits)' })
+  }
+})
+
+const wifi: PayloadDefinition<z.infer<typeof wifiSchema>> = {
+  label: 'Wi-Fi',
+  fields: [
+    { name: 'ssid', label: 'Network name (SSID)', kind: 'text' },
+    {
+      name: 'encryption',
+      label: 'Security',
+      kind: 'select',
+      options: [
+        { value: 'WPA', label: 'WPA/WPA2/WPA3' },
+        { value: 'WEP', label: 'WEP' },
+        { value: 'nopass', label: 'None' }
+      ]
+    },
+    { name: 'password', label: 'Password', kind: 'password' },
+    { name: 'hidden', label: 'Hidden network', kind: 'checkbox' }
+  ],
+  defaults: { ssid: '', encryption: 'WPA', password: '', hidden: false },
+  schema: wifiSchema,
+  encode: (data) => {
+    const parts = [`T:${data.encryption}`, `S:${escapeWifi(data.ssid)}`]
+    if (data.encryption !== 'nopass') {
+      // Raw hex keys go as-is; quote hex-looking passphrases so they aren't read as keys
+      const password = isWifiHexKey(data)
+        ? data.password
+        : /^[0-9a-f]+$/i.test(data.password) ? `"${data.password}"` : escapeWifi(data.password)
+      parts.push(`P:${password}`)
+    }
+    if (data.hidden) parts.push('H:true')
+    return `WIFI:${parts.join(';')};;`
+  },
+  describe: (data) => `Wi-Fi: ${data.ssid}`
+}
+
+const contactSchema = z.object({
+  format: z.enum(['mecard', 'vcard3', 'vcard4']),
+  firstName: z.string().trim(),
+  lastName: z.string().trim(),
+  organization: z.string().trim(),
+  title: z.string().trim(),
+  phone: z.string().trim().refine((value) => !value || /^\+?[\d\s().-]{3,}$/.test(value), 'Enter a valid phone number'),
+  email: optionalEmail,
+  website: optionalUrl,
+  street: z.string().trim(),
+  city: z.string().trim(),
+  region: z.string().trim(),
+  postalCode: z.string().trim(),
+  country: z.string().trim(),
+  note: z.string().trim()
+}).refine((data) => data.firstName || data.lastName || data.organization, {
+  path: ['firstName'],
+  message: 'Enter a name or organization'
+})
+
+type ContactData = z.infer<typeof contactSchema>
+
+const fullName = (data: ContactData) => [data.firstName, data.lastName].filter(Boolean).join(' ') || data.organization
+const hasAddress = (data: ContactData) => Boolean(data.street || data.city || data.region || data.postalCode || data.country)
+
+function encodeMecard(data: ContactData) {
+  const fields = [
+    `N:${escapeMecard(data.lastName)},${escapeMecard(data.firstName)}`,
+    data.organization && `ORG:${escapeMecard(data.organization)}`,
+    data.phone && `TEL:${normalizePhone(data.phone)}`,
+    data.email && `EMAIL:${escapeMecard(data.email)}`,
+    // MECARD ADR is a single comma-separated value: PO box, extended, street, city, region, postcode, country
+    hasAddress(data) && `ADR:,,${[data.street, data.city, data.region, data.postalCode, data.country].map(escapeMecard).join(',')}`,
+    data.website && `URL:${escapeMecard(data.website)}`,
+    data.note && `NOTE:${escapeMecard(data.note)}`
+  ].filter(Boolean)
+  return `MECARD:${fields.join(';')};;`
+}
+
+function encodeVcard(data: ContactData, version: '3.0' | '4.0') {
+  const address = [data.street, data.city, data.region, data.postalCode, data.country].map(escapeText).join(';')
+  const phone = normalizePhone(data.phone)
+
+  return contentLines([
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `N:${escapeText(data.lastName)};${escapeText(data.firstName)};;;`,
+    `FN:${escapeText(fullName(data))}`,
+    data.organization ? `ORG:${escapeText(data.organization)}` : null,
+    data.title ? `TITLE:${escapeText(data.title)}` : null,
+    phone ? (version === '4.0' ? `TEL;TYPE=cell;VALUE=uri:tel:${phone}` : `TEL;TYPE=CELL:${phone}`) : null,
+    data.email ? (version === '4.0' ? `EMAIL:${data.email}` : `EMAIL;TYPE=INTERNET:${data.email}`) : null,
+    hasAddress(data) ? `ADR;TYPE=${version === '4.0' ? 'work' : 'WORK'}:;;${address}` : null,
+    data.website ? `URL:${data.website}` : null,
+    data.note ? `NOTE:${escapeText(data.note)}` : null,
+    'END:VCARD'
+  ])
+}
+
+const contact: PayloadDefinition<ContactData> = {
+  label: 'Contact card',
+  fields: [
+    {
+      name: 'format',
+      label: 'Format',
+      kind: 'select',
+      options: [
+        { value: 'vcard3', label: 'vCard 3.0 (widest support)' },
+        { value: 'vcard4', label: 'vCard 4.0' },
+        { value: 'mecard', label: 'MECARD (most compact)' }
+      ]
+    },
+    { name: 'firstName', label: 'First name', kind: 'text' },
+    { name: 'lastName', label: 'Last name', kind: 'text' },
+    { name: 'organization', label: 'Organization', kind: 'text' },
+    { name: 'title', label: 'Job title', kind: 'text' },
+    { name: 'phone', label: 'Phone', kind: 'text', placeholder: '+1 555 123 4567' },
+    { name: 'email', label: 'Email', kind: 'text' },
+    { name: 'website', label: 'Website', kind: 'text', placeholder: 'https://example.com' },
+    { name: 'street', label: 'Street', kind: 'text' },
+    { name: 'city', label: 'City', kind: 'text' },
+    { name: 'region', label: 'State / region', kind: 'text' },
+    { name: 'postalCode', label: 'Postal code', kind: 'text' },
+    { name: 'country', label: 'Country', kind: 'text' },
+    { name: 'note', label: 'Note', kind: 'textarea' }
+  ],
+  defaults: {
+    format: 'vcard3',
+    firstName: '',
+    lastName: '',
+    organization: '',
+    title: '',
+    phone: '',
+    email: '',
+    website: '',
+    street: '',
+    city: '',
+    region: '',
+    postalCode: '',
+    country: '',
+    note: ''
+  },
+  schema: contactSchema,
+  encode: (data) => {
+    if (data.format === 'mecard') return encodeMecard(data)
+    return encodeVcard(data, data.format === 'vcard4' ? '4.0' : '3.0')
+  },
+  describe: (data) => `Contact: ${fullName(data)}`
+}
+
+const emailSchema = z.object({
+  to: z.string().trim().pipe(z.email('Enter a valid email address')),
+  subject: z.string(),
+  body: z.string()
+})
+
+const email: PayloadDefinition<z.infer<typeof emailSchema>> = {
+  label: 'Email',
+  fields: [
+    { name: 'to', label: 'To', kind: 'text', placeholder: 'name@example.com' },
+    { name: 'subject', label: 'Subject', kind: 'text' },
+    { name: 'body', label: 'Message', kind: 'textarea' }
+  ],
+  defaults: { to: '', subject: '', body: '' },
+  schema: emailSchema,
+  encode: (data) => {
+    // RFC 6068: hfields are percent-encoded, spaces as %20 rather than +
+    const query = [
+      data.subject && `subject=${encodeURIComponent(data.subject)}`,
+      data.body && `body=${encodeURIComponent(data.body.replace(/\r?\n/g, '\r\n'))}`
+    ].filter(Boolean).join('&')
+    return `mailto:${encodeURIComponent(data.to).replace(/%40/g, '@')}${query ? `?${query}` : ''}`
+  },
+  describe: (data) => `Email: ${data.to}`
+}
+
+const smsSchema = z.object({
+  phone: phoneNumber('Enter a valid phone number'),
+  message: z.string().max(160, 'SMS messages are limited to 160 characters')
+})
+
+const sms: PayloadDefinition<z.infer<typeof smsSchema>> = {
+  label: 'SMS',
+  fields: [
+    { name: 'phone', label: 'Phone number', kind: 'text', placeholder: '+1 555 123 4567' },
+    { name: 'message', label: 'Message', kind: 'textarea' }
+  ],
+  defaults: { phone: '', message: '' },
+  schema: smsSchema,
+  // SMSTO has no escaping; readers split on the first colon after the number
+  encode: (data) => `SMSTO:${normalizePhone(data.phone)}:${data.message}`,
+  describe: (data) => `SMS: ${data.phone}`
+}
+
+const phoneSchema = z.object({
+  phone: phoneNumber('Enter a valid phone number')
+})
+
+const phone: PayloadDefinition<z.infer<typeof phoneSchema>> = {
+  label: 'Phone call',
+  fields: [
+    { name: 'phone', label: 'Phone number', kind: 'text', placeholder: '+1 555 123 4567' }
+  ],
+  defaults: { phone: '' },
+  schema: phoneSchema,
+  encode: (data) => `tel:${normalizePhone(data.phone)}`,
+  describe: (data) => `Call: ${data.phone}`
+}
+
+// Form inputs arrive as strings; an empty field must fail rather than coerce to 0
+const coordinate = (name: string, limit: number) => z.preprocess(
+  (value) => typeof value === 'string' && value.trim() === '' ? undefined : value,
+  z.coerce.number({ error: `${name} is required` })
+    .min(-limit, `${name} must be between -${limit} and ${limit}`)
+    .max(limit, `${name} must be between -${limit} and ${limit}`)
+)
+
+const geoSchema = z.object({
+  latitude: coordinate('Latitude', 90),
+  longitude: coordinate('Longitude', 180),
+  query: z.string().trim()
+})
+
+const geo: PayloadDefinition<z.infer<typeof geoSchema>> = {
+  label: 'Location',
+  fields: [
+    { name: 'latitude', label: 'Latitude', kind: 'number', placeholder: '51.5007' },
+    { name: 'longitude', label: 'Longitude', kind: 'number', placeholder: '-0.1246' },
+    { name: 'query', label: 'Place name (optional)', kind: 'text' }
+  ],
+  defaults: { latitude: '', longitude: '', query: '' },
+  schema: geoSchema,
+  // RFC 5870 coordinates; the q= label is the widely supported Android extension
+  encode: (data) => `geo:${data.latitude},${data.longitude}${data.query ? `?q=${encodeURIComponent(data.query)}` : ''}`,
+  describe: (data) => `Location: ${data.query || `${data.latitude}, ${data.longitude}`}`
+}
+
+// Values can come from share links and imported history, not just the date picker
+const isValidDate = (value: string) => !Number.isNaN(Date.parse(value))
+
+const eventSchema = z.object({
+  summary: z.string().trim().min(1, 'Event title is required'),
+  location: z.string().trim(),
+  description: z.string().trim(),
+  start: z.string().min(1, 'Start time is required').refine(isValidDate, 'Enter a valid start time'),
+  end: z.string().refine((value) => !value || isValidDate(value), 'Enter a valid end time'),
+  allDay: z.boolean()
+}).refine((data) => !data.end || new Date(data.end) >= new Date(data.start), {
+  path: ['end'],
+  message: 'End must be after the start'
+})
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Local wall-clock input from <input type="datetime-local"> as a UTC DATE-TIME
+const toICalDateTime = (value: string) => new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+// All-day events use floating DATE values; the end date is exclusive
+function toICalDate(value: string, addDays = 0) {
+  const date = new Date(value)
+  date.setDate(date.getDate() + addDays)
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+}
+
+const event: PayloadDefinition<z.infer<typeof eventSchema>> = {
+  label: 'Calendar event',
+  fields: [
+    { name: 'summary', label: 'Title', kind: 'text' },
+    { name: 'start', label: 'Starts', kind: 'datetime' },
+    { name: 'end', label: 'Ends', kind: 'datetime' },
+    { name: 'allDay', label: 'All-day event', kind: 'checkbox' },
+    { name: 'location', label: 'Location', kind: 'text' },
+    { name: 'description', label: 'Description', kind: 'textarea' }
+  ],
+  defaults: { summary: '', start: '', end: '', allDay: false, location: '', description: '' },
+  schema: eventSchema,
+  // A bare VEVENT is what QR readers expect; the VCALENDAR wrapper only adds bytes
+  encode: (data) => contentLines([
+    'BEGIN:VEVENT',
+    `SUMMARY:${escapeText(data.summary)}`,
+    data.allDay ? `DTSTART;VALUE=DATE:${toICalDate(data.start)}` : `DTSTART:${toICalDateTime(data.start)}`,
+    data.allDay
+      ? `DTEND;VALUE=DATE:${toICalDate(data.end || data.start, 1)}`
+      : data.end ? `DTEND:${toICalDateTime(data.end)}` : null,
+    data.location ? `LOCATION:${escapeText(data.location)}` : null,
+    data.description ? `DESCRIPTION:${escapeText(data.description)}` : null,
+    'END:VEVENT'
+  ]),
+  describe: (data) => `Event: ${data.summary}`
+}
+
+const PAYLOAD_DEFINITIONS = { wifi, contact, email, sms, phone, geo, event }
+
+export type StructuredPayloadType = keyof typeof PAYLOAD_DEFINITIONS
+
+export const PAYLOAD_TYPE_LABELS: Record<PayloadType, string> = {
+  url: 'Website URL',
+  wifi: wifi.label,
+  contact: contact.label,
+  email: email.label,
+  sms: sms.label,
+  phone: phone.label,
+  geo: geo.label,
+  event: event.label
+}
+
+export function getPayloadFields(type: StructuredPayloadType): PayloadField[] {
+  return PAYLOAD_DEFINITIONS[type].fields
+}
+
+export function getPayloadDefaults(type: StructuredPayloadType): PayloadValues {
+  return { ...PAYLOAD_DEFINITIONS[type].defaults }
+}
+
+function runDefinition<T>(definition: PayloadDefinition<T>, values: PayloadValues): PayloadResult {
+  const parsed = definition.schema.safeParse(values)
+  if (!parsed.success) {
+    const errors: Record<string, string> = {}
+    for (const issue of parsed.error.issues) {
+      const key = String(issue.path[0] ?? '')
+      errors[key] ??= issue.message
+    }
+    return { ok: false, errors }
+  }
+  // Encoders run during render; report a value the schema let through instead of throwing
+  try {
+    return { ok: true, text: definition.encode(parsed.data), label: definition.describe(parsed.data) }
+  } catch (error) {
+    console.error('Payload encoding failed:', error)
+    return { ok: false, errors: { [definition.fields[0].name]: 'These details could not be encoded' } }
+  }
+}
+
+// Validates form values against the type's schema and builds the QR payload string
+export function encodePayload(type: StructuredPayloadType, values: PayloadValues): PayloadResult {
+  switch (type) {
+    case 'wifi': return runDefinition(wifi, values)
+    case 'contact': return runDefinition(contact, values)
+    case 'email': return runDefinition(email, values)
+    case 'sms': return runDefinition(sms, values)
+    case 'phone': return runDefinition(phone, values)
+    case 'geo': return runDefinition(geo, values)
+    case 'event': return runDefinition(event, values)
+  }
+}
@@ -0,0 +1,161 @@
+import { z } from 'zod'
+import { DEFAULT_QR_DESIGN, designStyleSchema, getDesignStyle, type DesignStyle } from './design'
+import { DEFAULT_QR_COLORS } from './qr-colors'
+import { DEFAULT_QR_STYLE } from './qr-shapes'
+
+export interface DesignPreset {
+  id: string
+  name: string
+  style: DesignStyle
+  // Uploaded logo as a data URL; empty when the preset auto-detects or has no logo
+  logoUrl: string
+  builtIn: boolean
+}
+
+const PRESETS_KEY = 'qr-design-presets'
+const DEFAULT_PRESET_KEY = 'qr-default-preset'
+
+const baseStyle = getDesignStyle(DEFAULT_QR_DESIGN)
+
+const builtIn = (id: string, name: string, style: Partial<DesignStyle>): DesignPreset => ({
+  id: `builtin:${id}`,
+  name,
+  style: { ...baseStyle, ...style },
+  logoUrl: '',
+  builtIn: true
+})
+
+export const BUILT_IN_PRESETS: DesignPreset[] = [
+  builtIn('classic', 'Classic', {}),
+  builtIn('print', 'Print ready', {
+    size: '1024',
+    margin: 4,
+    errorCorrection: 'Q'
+  }),
+  builtIn('rounded-blue', 'Rounded blue', {
+    colors: { ...DEFAULT_QR_COLORS, foreground: '#1d4ed8' },
+    style: { ...DEFAULT_QR_STYLE, moduleShape: 'rounded', finderFrameShape: 'rounded', finderPupilShape: 'circle' }
+  }),
+  builtIn('gradient-dots', 'Gradient dots', {
+    colors: { ...DEFAULT_QR_COLORS, foreground: '#7c3aed', gradientType: 'linear', gradientColor: '#db2777', gradientAngle: 45 },
+    style: { ...DEFAULT_QR_STYLE, moduleShape: 'dots', finderFrameShape: 'circle', finderPupilShape: 'circle' }
+  }),
+  builtIn('website-logo', 'Website logo', {
+    errorCorrection: 'H',
+    logoEnabled: true,
+    autoDetectLogo: true,
+    style: { ...DEFAULT_QR_STYLE, moduleShape: 'extra-rounded', finderFrameShape: 'rounded', finderPupilShape: 'rounded' }
+  })
+]
+
+const storedPresetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  style: designStyleSchema,
+  logoUrl: z.string().default('')
+})
+
+// User presets from localStorage; rows that no longer validate are dropped
+export function loadPresets(): DesignPreset[] {
+  const saved = localStorage.getItem(PRESETS_KEY)
+  if (!saved) return []
+
+  try {
+    const rows: unknown[] = JSON.parse(saved)
+    return rows.flatMap((row) => {
+      const parsed = storedPresetSchema.safeParse(row)
+      return parsed.success ? [{ ...parsed.data, builtIn: false }] : []
+    })
+  } catch (e) {
+    console.error('Failed to parse presets:', e)
+    return []
+  }
+}
+
+export function savePresets(presets: DesignPreset[]) {
+  const userPresets = presets.filter((preset) => !preset.builtIn)
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(userPresets))
+}
+
+export function loadDefaultPresetId(): string | null {
+  return localStorage.getItem(DEFAULT_PRESET_KEY)
+}
+
+export function saveDefaultPresetId(id: string | null) {
+  if (id) {
+    localStorage.setItem(DEFAULT_PRESET_KEY, id)
+  } else {
+    localStorage.removeItem(DEFAULT_PRESET_KEY)
+  }
+}
+
+export function createPreset(name: string, style: DesignStyle, logoUrl: string): DesignPreset {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    style,
+    // Auto-detected logos depend on the content, so only uploads are stored
+    logoUrl: style.logoEnabled && !style.autoDetectLogo ? logoUrl : '',
+    builtIn: false
+  }
+}
+
+// "Name copy", "Name copy 2", ... avoiding names already taken
+export function duplicatePreset(preset: DesignPreset, existing: DesignPreset[]): DesignPreset {
+  const names = new Set(existing.map((item) => item.name))
+  let name = `${preset.name} copy`
+  for (let suffix = 2; names.has(name); suffix++) {
+    name = `${preset.name} copy ${suffix}`
+  }
+  return createPreset(name, preset.style, preset.logoUrl)
+}
+
+export function findPreset(presets: DesignPreset[], id: string | null) {
+  return presets.find((preset) => preset.id === id) ?? null
+}
+
+const PRESET_FILE_FORMAT = 'qr-design-preset'
+// Bump when the preset shape changes and teach parsePresetFile to upgrade older files
+export const PRESET_FILE_VERSION = 1
+
+export type PresetFile = Pick<DesignPreset, 'name' | 'style' | 'logoUrl'>
+
+const presetFileSchema = z.object({
+  format: z.literal(PRESET_FILE_FORMAT),
+  version: z.number().int(),
+  name: z.string().min(1),
+  style: designStyleSchema,
+  logoUrl: z.string().default('')
+})
+
+// A single preset as a standalone JSON file, e.g. for the qrgen CLI
+export function serializePreset(preset: DesignPreset): string {
+  return JSON.stringify({
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    name: preset.name,
+    style: preset.style,
+    logoUrl: preset.logoUrl
+  }, null, 2)
+}
+
+// Throws with a user-facing message when the file isn't a usable preset
+export function parsePresetFile(text: string): PresetFile {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const version = (json as { version?: unknown } | null)?.version
+  if (typeof version === 'number' && version > PRESET_FILE_VERSION) {
+    throw new Error(`The file was exported by a newer version (v${version}) of this app`)
+  }
+
+  const file = presetFileSchema.safeParse(json)
+  if (!file.success) {
+    throw new Error('The file is not a QR code preset export')
+  }
+  return { name: file.data.name, style: file.data.style, logoUrl: file.data.logoUrl }
+}
@@ -0,0 +1,118 @@
+import type { QRCodeErrorCorrectionLevel } from 'qrcode'
+import { loadImage } from './image'
+import { createCanvasFill, type QRColors } from './qr-colors'
+import { buildQRPaths, type ModuleClearance, type QRStyle } from './qr-shapes'
+
+// On-screen canvases and the worker's OffscreenCanvas draw through the same code
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export type PathFactory = (d: string) => Path2D
+
+const createPath2D: PathFactory = (d) => new Path2D(d)
+
+// A decoded image with its intrinsic size, whatever the canvas implementation calls it
+export interface CanvasImage {
+  source: CanvasImageSource
+  width: number
+  height: number
+}
+
+// Everything the rendering core needs from a canvas implementation. Browsers use
+// the backends below; other runtimes (e.g. Node with a canvas package) supply their own.
+export interface CanvasBackend {
+  createContext(width: number, height: number): Canvas2DContext
+  createPath: PathFactory
+  loadImage(src: string): Promise<CanvasImage>
+  encodePng(ctx: Canvas2DContext): Promise<Uint8Array>
+}
+
+export interface QRRenderOptions {
+  width: number
+  margin: number
+  errorCorrectionLevel: QRCodeErrorCorrectionLevel
+  colors: QRColors
+  style: QRStyle
+  // Modules left out behind an excavated logo
+  clearance?: ModuleClearance | null
+}
+
+// Draws the styled module paths onto a `width` pixel square context. The context
+// is scaled to module units so gradients use the same coordinates as the SVG export.
+export function drawQRCode(
+  ctx: Canvas2DContext,
+  text: string,
+  options: QRRenderOptions,
+  createPath: PathFactory = createPath2D
+) {
+  const { colors, style } = options
+  const paths = buildQRPaths(text, options.errorCorrectionLevel, options.margin, style, options.clearance)
+
+  ctx.save()
+  const scale = options.width / paths.viewBoxSize
+  ctx.setTransform(scale, 0, 0, scale, 0, 0)
+
+  if (!colors.transparentBackground) {
+    ctx.fillStyle = colors.background
+    ctx.fillRect(0, 0, paths.viewBoxSize, paths.viewBoxSize)
+  }
+
+  const moduleFill = createCanvasFill(ctx, colors, paths.viewBoxSize)
+
+  ctx.fillStyle = moduleFill
+  ctx.fill(createPath(paths.modules))
+
+  ctx.fillStyle = style.finderFrameColor ?? moduleFill
+  ctx.fill(createPath(paths.finderFrames), 'evenodd')
+
+  ctx.fillStyle = style.finderPupilColor ?? moduleFill
+  ctx.fill(createPath(paths.finderPupils))
+  ctx.restore()
+}
+
+async function blobToBytes(blob: Blob | null): Promise<Uint8Array> {
+  if (!blob) throw new Error('Canvas could not be encoded')
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+// Main-thread rendering on <canvas>; images load through <img>, which handles SVG and CORS
+export const browserCanvasBackend: CanvasBackend = {
+  createContext(width, height) {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas context not available')
+    return ctx
+  },
+  createPath: createPath2D,
+  async loadImage(src) {
+    const img = await loadImage(src, 8000)
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight }
+  },
+  encodePng(ctx) {
+    const canvas = ctx.canvas as HTMLCanvasElement
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => blobToBytes(blob).then(resolve, reject), 'image/png')
+    })
+  }
+}
+
+// Worker rendering on OffscreenCanvas, where <img> isn't available
+export const offscreenCanvasBackend: CanvasBackend = {
+  createContext(width, height) {
+    const ctx = new OffscreenCanvas(width, height).getContext('2d')
+    if (!ctx) throw new Error('Canvas context not available')
+    return ctx
+  },
+  createPath: createPath2D,
+  async loadImage(src) {
+    const response = await fetch(src)
+    if (!response.ok) throw new Error(`Failed to load image: ${src}`)
+    const bitmap = await createImageBitmap(await response.blob())
+    return { source: bitmap, width: bitmap.width, height: bitmap.height }
+  },
+  async encodePng(ctx) {
+    const canvas = ctx.canvas as OffscreenCanvas
+    return blobToBytes(await canvas.convertToBlob({ type: 'image/png' }))
+  }
+}
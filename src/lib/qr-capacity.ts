@@ -0,0 +1,119 @@
+import QRCode from 'qrcode'
+import { ERROR_CORRECTION_LABELS, type ErrorCorrectionLevel } from './qr-ecc'
+
+export type QRSegmentMode = 'numeric' | 'alphanumeric' | 'byte' | 'kanji'
+
+export const SEGMENT_MODE_LABELS: Record<QRSegmentMode, string> = {
+  numeric: 'Numeric',
+  alphanumeric: 'Alphanumeric',
+  byte: 'Byte',
+  kanji: 'Kanji'
+}
+
+export interface QRSegmentInfo {
+  mode: QRSegmentMode
+  // Characters (bytes for byte mode)
+  length: number
+  // Including the mode indicator and character count
+  bits: number
+}
+
+export interface QRCapacity {
+  version: number
+  moduleCount: number
+  level: ErrorCorrectionLevel
+  segments: QRSegmentInfo[]
+  usedBytes: number
+  // Data bytes this version holds at this level
+  capacityBytes: number
+}
+
+// Data codewords per version (1-40) for L, M, Q and H (ISO/IEC 18004, table 7)
+const DATA_CODEWORDS: [number, number, number, number][] = [
+  [19, 16, 13, 9], [34, 28, 22, 16], [55, 44, 34, 26], [80, 64, 48, 36],
+  [108, 86, 62, 46], [136, 108, 76, 60], [156, 124, 88, 66], [194, 154, 110, 86],
+  [232, 182, 132, 100], [274, 216, 154, 122], [324, 254, 180, 140], [370, 290, 206, 158],
+  [428, 334, 244, 180], [461, 365, 261, 197], [523, 415, 295, 223], [589, 453, 325, 253],
+  [647, 507, 367, 283], [721, 563, 397, 313], [795, 627, 445, 341], [861, 669, 485, 385],
+  [932, 714, 512, 406], [1006, 782, 568, 442], [1094, 860, 614, 464], [1174, 914, 664, 514],
+  [1276, 1000, 718, 538], [1370, 1062, 754, 596], [1468, 1128, 808, 628], [1531, 1193, 871, 661],
+  [1631, 1267, 911, 701], [1735, 1373, 985, 745], [1843, 1455, 1033, 793], [1955, 1541, 1115, 845],
+  [2071, 1631, 1171, 901], [2191, 1725, 1231, 961], [2306, 1812, 1286, 986], [2434, 1914, 1354, 1054],
+  [2566, 1992, 1426, 1096], [2702, 2102, 1502, 1142], [2812, 2216, 1582, 1222], [2956, 2334, 1666, 1276]
+]
+
+const LEVEL_INDEX: Record<ErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 }
+
+// Bits of the character count for versions 1-9, 10-26 and 27-40
+const COUNT_BITS: Record<QRSegmentMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+  kanji: [8, 10, 12]
+}
+
+const MODE_INDICATOR_BITS = 4
+
+const dataCodewords = (version: number, level: ErrorCorrectionLevel) => DATA_CODEWORDS[version - 1][LEVEL_INDEX[level]]
+
+// Data bytes in the largest code (version 40) at the level
+export const maxDataBytes = (level: ErrorCorrectionLevel) => dataCodewords(40, level)
+
+// Version, size and encoding of the code the generator would make for `text`,
+// with the segments the encoder picked. Null when the text doesn't fit at `level`.
+export function measureQRCapacity(text: string, level: ErrorCorrectionLevel): QRCapacity | null {
+  let qr: ReturnType<typeof QRCode.create>
+  try {
+    qr = QRCode.create(text, { errorCorrectionLevel: level })
+  } catch {
+    return null
+  }
+
+  const countBitsIndex = qr.version < 10 ? 0 : qr.version < 27 ? 1 : 2
+  const segments = qr.segments.map((segment) => {
+    const mode = segment.mode.id.toLowerCase() as QRSegmentMode
+    return {
+      mode,
+      length: segment.getLength(),
+      bits: MODE_INDICATOR_BITS + COUNT_BITS[mode][countBitsIndex] + segment.getBitsLength()
+    }
+  })
+  const usedBits = segments.reduce((total, segment) => total + segment.bits, 0)
+
+  return {
+    version: qr.version,
+    moduleCount: qr.modules.size,
+    level,
+    segments,
+    usedBytes: Math.ceil(usedBits / 8),
+    capacityBytes: dataCodewords(qr.version, level)
+  }
+}
+
+// Explains why `text` can't be encoded at `level`, in place of the encoder's error
+export function describeOverflow(text: string, level: ErrorCorrectionLevel): string {
+  const bytes = new TextEncoder().encode(text).length
+  const advice = level === 'L' ? 'Shorten the content' : 'Shorten the content or lower the error correction'
+  return `The content is about ${bytes} bytes; the largest QR code at ${ERROR_CORRECTION_LABELS[level]} holds ${maxDataBytes(level)} bytes. ${advice}.`
+}
+
+// Typical scanning distances for the print size estimate, in centimeters
+export const SCAN_DISTANCES: Record<string, string> = {
+  '25': 'Handheld (25 cm)',
+  '50': 'Table or counter (50 cm)',
+  '100': 'Poster (1 m)',
+  '200': 'Wall poster (2 m)',
+  '500': 'Banner (5 m)'
+}
+
+// Phone cameras resolve a module at about 1/330 of the scanning distance: the
+// common 10:1 distance-to-size rule, applied to a 25-module code with its quiet zone
+const DISTANCE_PER_MODULE = 330
+// Finer modules than this blur together in most print processes
+const MIN_MODULE_CM = 0.03
+
+// Smallest printed width (quiet zone included) that scans from `distanceCm`
+export function minimumPrintSize(moduleCount: number, margin: number, distanceCm: number): number {
+  const moduleCm = Math.max(MIN_MODULE_CM, distanceCm / DISTANCE_PER_MODULE)
+  return (moduleCount + margin * 2) * moduleCm
+}
@@ -0,0 +1,115 @@
+import { contrastRatio, parseHexColor, relativeLuminance } from './color'
+import type { Canvas2DContext } from './qr-canvas'
+
+export type GradientType = 'none' | 'linear' | 'radial'
+
+export interface QRColors {
+  foreground: string
+  background: string
+  transparentBackground: boolean
+  gradientType: GradientType
+  // The gradient runs from `foreground` to `gradientColor`
+  gradientColor: string
+  // Degrees, linear gradients only; 0 runs left to right
+  gradientAngle: number
+}
+
+export const DEFAULT_QR_COLORS: QRColors = {
+  foreground: '#1f2937',
+  background: '#ffffff',
+  transparentBackground: false,
+  gradientType: 'none',
+  gradientColor: '#2563eb',
+  gradientAngle: 45
+}
+
+export type LinearGradientGeometry = { type: 'linear'; x1: number; y1: number; x2: number; y2: number }
+export type RadialGradientGeometry = { type: 'radial'; cx: number; cy: number; r: number }
+
+// Gradient endpoints for a square of `size` units, shared by the canvas and SVG renderers
+export function getGradientGeometry(colors: QRColors, size: number): LinearGradientGeometry | RadialGradientGeometry | null {
+  const center = size / 2
+
+  if (colors.gradientType === 'linear') {
+    const radians = (colors.gradientAngle * Math.PI) / 180
+    const dx = Math.cos(radians) * center
+    const dy = Math.sin(radians) * center
+    return { type: 'linear', x1: center - dx, y1: center - dy, x2: center + dx, y2: center + dy }
+  }
+
+  if (colors.gradientType === 'radial') {
+    return { type: 'radial', cx: center, cy: center, r: center * Math.SQRT2 }
+  }
+
+  return null
+}
+
+export function createCanvasFill(ctx: Canvas2DContext, colors: QRColors, size: number): string | CanvasGradient {
+  const geometry = getGradientGeometry(colors, size)
+  if (!geometry) return colors.foreground
+
+  const gradient = geometry.type === 'linear'
+    ? ctx.createLinearGradient(geometry.x1, geometry.y1, geometry.x2, geometry.y2)
+    : ctx.createRadialGradient(geometry.cx, geometry.cy, 0, geometry.cx, geometry.cy, geometry.r)
+  gradient.addColorStop(0, colors.foreground)
+  gradient.addColorStop(1, colors.gradientColor)
+  return gradient
+}
+
+export function createSvgGradient(id: string, colors: QRColors, size: number): string | null {
+  const geometry = getGradientGeometry(colors, size)
+  if (!geometry) return null
+
+  const stops = `<stop offset="0" stop-color="${colors.foreground}"/><stop offset="1" stop-color="${colors.gradientColor}"/>`
+
+  return geometry.type === 'linear'
+    ? `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${geometry.x1}" y1="${geometry.y1}" x2="${geometry.x2}" y2="${geometry.y2}">${stops}</linearGradient>`
+    : `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${geometry.cx}" cy="${geometry.cy}" r="${geometry.r}">${stops}</radialGradient>`
+}
+
+export type ContrastLevel = 'ok' | 'warn' | 'block'
+
+export interface ContrastAssessment {
+  level: ContrastLevel
+  // Worst contrast between any foreground stop and the background
+  ratio: number
+  message: string
+}
+
+// Most phone scanners need roughly 3:1 to lock on and are unreliable below
+// 4.5:1 in poor light. Inverted palettes (light modules on dark) are skipped by
+// many older decoders, so they are flagged too.
+const BLOCK_RATIO = 3
+const WARN_RATIO = 4.5
+
+// `extraForegrounds` covers colors painted outside the module fill, such as custom finder patterns
+export function assessContrast(colors: QRColors, extraForegrounds: string[] = []): ContrastAssessment {
+  // A transparent code is usually placed on white paper or a white page
+  const background = parseHexColor(colors.transparentBackground ? '#ffffff' : colors.background)
+  const stops = [colors.foreground]
+  if (colors.gradientType !== 'none') stops.push(colors.gradientColor)
+  stops.push(...extraForegrounds)
+  const foregrounds = stops.map(parseHexColor)
+
+  if (!background || foregrounds.some((c) => !c)) {
+    return { level: 'block', ratio: 0, message: 'Enter colors as hex values like #1f2937' }
+  }
+
+  const parsed = foregrounds as NonNullable<(typeof foregrounds)[number]>[]
+  const ratio = Math.min(...parsed.map((c) => contrastRatio(c, background)))
+  const inverted = parsed.some((c) => relativeLuminance(c) > relativeLuminance(background))
+
+  if (ratio < BLOCK_RATIO) {
+    return { level: 'block', ratio, message: 'Contrast is too low for scanners to read this code' }
+  }
+  if (inverted) {
+    return { level: 'warn', ratio, message: 'Modules are lighter than the background; some scanners cannot read inverted codes' }
+  }
+  if (ratio < WARN_RATIO) {
+    return { level: 'warn', ratio, message: 'Low contrast may fail to scan in poor lighting' }
+  }
+  if (colors.transparentBackground) {
+    return { level: 'ok', ratio, message: 'Checked against white; place the code on a light surface' }
+  }
+  return { level: 'ok', ratio, message: 'Good contrast for scanning' }
+}
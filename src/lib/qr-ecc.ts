@@ -0,0 +1,105 @@
+import QRCode from 'qrcode'
+import { getLogoFootprint, type LogoOptions } from './qr-logo'
+import { overlapsClearance } from './qr-shapes'
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+export type ErrorCorrectionSetting = ErrorCorrectionLevel | 'auto'
+
+export const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H']
+
+// Approximate share of codewords each level can restore (ISO/IEC 18004)
+export const RECOVERY_CAPACITY: Record<ErrorCorrectionLevel, number> = {
+  L: 7,
+  M: 15,
+  Q: 25,
+  H: 30
+}
+
+export const ERROR_CORRECTION_LABELS: Record<ErrorCorrectionSetting, string> = {
+  auto: 'Auto (lowest that fits)',
+  L: 'Low (7%)',
+  M: 'Medium (15%)',
+  Q: 'Quartile (25%)',
+  H: 'High (30%)'
+}
+
+// Modules under the logo damage more codewords than their own share (codewords
+// straddle the edge), and print/scan noise eats into the rest, so only part of
+// the nominal capacity is spent on the logo.
+const LOGO_BUDGET_RATIO = 0.75
+
+export interface LogoBudget {
+  level: ErrorCorrectionLevel
+  moduleCount: number
+  occludedModules: number
+  // Both as percentages of the symbol's modules
+  occludedPercent: number
+  capacityPercent: number
+  fits: boolean
+}
+
+// Counts the modules touched by the logo, its pad and border (or excavated for it).
+// `logo` is null when no logo is drawn; `unit` scales its pixel settings as in
+// getLogoGeometry. Returns null if the text doesn't fit in a QR code at this level.
+export function measureLogoOcclusion(
+  text: string,
+  level: ErrorCorrectionLevel,
+  width: number,
+  margin: number,
+  logo: LogoOptions | null,
+  unit = 1
+): LogoBudget | null {
+  let moduleCount: number
+  try {
+    moduleCount = QRCode.create(text, { errorCorrectionLevel: level }).modules.size
+  } catch {
+    return null
+  }
+
+  let occludedModules = 0
+  if (logo) {
+    const footprint = getLogoFootprint(logo, width, unit)
+    const viewBoxSize = moduleCount + margin * 2
+
+    for (let row = 0; row < moduleCount; row++) {
+      for (let col = 0; col < moduleCount; col++) {
+        if (overlapsClearance(col + margin, row + margin, viewBoxSize, footprint)) occludedModules++
+      }
+    }
+  }
+
+  const occludedPercent = (occludedModules / (moduleCount * moduleCount)) * 100
+  const capacityPercent = RECOVERY_CAPACITY[level]
+
+  return {
+    level,
+    moduleCount,
+    occludedModules,
+    occludedPercent,
+    capacityPercent,
+    fits: occludedPercent <= capacityPercent * LOGO_BUDGET_RATIO
+  }
+}
+
+// Resolves 'auto' to the lowest level whose budget covers the logo, falling back
+// to H when none does. Returns null if the text is too long for any level.
+export function resolveErrorCorrection(
+  text: string,
+  setting: ErrorCorrectionSetting,
+  width: number,
+  margin: number,
+  logo: LogoOptions | null,
+  unit = 1
+): LogoBudget | null {
+  if (setting !== 'auto') {
+    return measureLogoOcclusion(text, setting, width, margin, logo, unit)
+  }
+
+  let fallback: LogoBudget | null = null
+  for (const level of ERROR_CORRECTION_LEVELS) {
+    const budget = measureLogoOcclusion(text, level, width, margin, logo, unit)
+    if (budget?.fits) return budget
+    fallback = budget ?? fallback
+  }
+  return fallback
+}
@@ -0,0 +1,114 @@
+import { circle, roundedRect, type ModuleClearance } from './qr-shapes'
+import type { Canvas2DContext, CanvasImage, PathFactory } from './qr-canvas'
+
+export type LogoShape = 'circle' | 'rounded' | 'square' | 'none'
+
+export interface LogoOptions {
+  // Logo width as a share of the image width
+  scale: number
+  // Clip and pad outline; 'none' draws the image as-is without pad or border
+  shape: LogoShape
+  padColor: string
+  // Pad and border in pixels at the code's chosen size
+  padSize: number
+  borderWidth: number
+  borderColor: string
+  // Remove the modules under the logo instead of painting over them
+  excavate: boolean
+}
+
+export const DEFAULT_LOGO_OPTIONS: LogoOptions = {
+  scale: 0.25,
+  shape: 'circle',
+  padColor: '#ffffff',
+  padSize: 8,
+  borderWidth: 2,
+  borderColor: '#e5e7eb',
+  excavate: false
+}
+
+export const LOGO_SHAPE_LABELS: Record<LogoShape, string> = {
+  circle: 'Circle',
+  rounded: 'Rounded square',
+  square: 'Square',
+  none: 'None (as uploaded)'
+}
+
+export const LOGO_SCALE_RANGE = { min: 0.1, max: 0.35 }
+
+// Corner radius of rounded shapes relative to their half-width
+const ROUNDED_CORNER_RATIO = 0.4
+
+export interface LogoGeometry {
+  center: number
+  logoSize: number
+  // Half-width of the pad outline (the border is stroked centred on it)
+  padHalf: number
+  // Half-width of everything the logo covers, border included
+  outerHalf: number
+}
+
+// `unit` converts the pixel settings to the target coordinate space, e.g. when
+// re-rendering at print resolution or drawing in SVG module units
+export function getLogoGeometry(width: number, options: LogoOptions, unit = 1): LogoGeometry {
+  const logoSize = width * options.scale
+  const hasPad = options.shape !== 'none'
+  const padHalf = logoSize / 2 + (hasPad ? options.padSize * unit : 0)
+  const border = hasPad ? options.borderWidth * unit : 0
+
+  return { center: width / 2, logoSize, padHalf, outerHalf: padHalf + border / 2 }
+}
+
+// Outline of a logo shape as SVG path data, shared by canvas (Path2D) and SVG output
+export function logoShapePath(shape: LogoShape, center: number, half: number) {
+  if (shape === 'circle') return circle(center, center, half)
+  const radius = shape === 'rounded' ? half * ROUNDED_CORNER_RATIO : 0
+  return roundedRect(center - half, center - half, half * 2, half * 2, [radius, radius, radius, radius])
+}
+
+// Area the logo covers, as a fraction of the image width
+export function getLogoFootprint(options: LogoOptions, width: number, unit = 1): ModuleClearance {
+  const { outerHalf } = getLogoGeometry(width, options, unit)
+  return { shape: options.shape === 'circle' ? 'circle' : 'square', halfSize: outerHalf / width }
+}
+
+// Draws the logo centred on a `size` pixel code inside its pad and border. Works
+// on any 2D context, so every canvas backend composites the same way.
+export function drawLogo(
+  ctx: Canvas2DContext,
+  image: CanvasImage,
+  size: number,
+  options: LogoOptions,
+  unit = 1,
+  createPath: PathFactory = (d) => new Path2D(d)
+) {
+  const { center, logoSize, padHalf } = getLogoGeometry(size, options, unit)
+  // Keep the logo's aspect ratio so wide wordmarks aren't squashed into a square
+  const fit = logoSize / Math.max(image.width || 1, image.height || 1)
+  const logoWidth = image.width ? image.width * fit : logoSize
+  const logoHeight = image.height ? image.height * fit : logoSize
+  const drawImage = () => {
+    ctx.drawImage(image.source, center - logoWidth / 2, center - logoHeight / 2, logoWidth, logoHeight)
+  }
+
+  if (options.shape === 'none') {
+    drawImage()
+    return
+  }
+
+  const pad = createPath(logoShapePath(options.shape, center, padHalf))
+  ctx.fillStyle = options.padColor
+  ctx.fill(pad)
+
+  if (options.borderWidth > 0) {
+    ctx.strokeStyle = options.borderColor
+    ctx.lineWidth = options.borderWidth * unit
+    ctx.stroke(pad)
+  }
+
+  // Clip the logo to the same shape as its pad
+  ctx.save()
+  ctx.clip(createPath(logoShapePath(options.shape, center, logoSize / 2)))
+  drawImage()
+  ctx.restore()
+}
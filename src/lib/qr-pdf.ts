@@ -0,0 +1,224 @@
+import { jsPDF } from 'jspdf'
+
+export type PdfTemplateId = 'a4' | 'letter' | 'labels-a4-3x7' | 'labels-letter-3x10'
+
+interface PdfTemplate {
+  label: string
+  pageWidth: number
+  pageHeight: number
+  // Single-page templates get bleed and crop marks; label sheets are pre-cut
+  kind: 'page' | 'labels'
+  columns: number
+  rows: number
+  cellWidth: number
+  cellHeight: number
+  offsetX: number
+  offsetY: number
+  gapX: number
+  gapY: number
+  captionFontSize: number
+  defaultMarginMm: number
+}
+
+// All dimensions in millimetres
+export const PDF_TEMPLATES: Record<PdfTemplateId, PdfTemplate> = {
+  a4: {
+    label: 'A4 page',
+    pageWidth: 210,
+    pageHeight: 297,
+    kind: 'page',
+    columns: 1,
+    rows: 1,
+    cellWidth: 210,
+    cellHeight: 297,
+    offsetX: 0,
+    offsetY: 0,
+    gapX: 0,
+    gapY: 0,
+    captionFontSize: 14,
+    defaultMarginMm: 20
+  },
+  letter: {
+    label: 'US Letter page',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    kind: 'page',
+    columns: 1,
+    rows: 1,
+    cellWidth: 215.9,
+    cellHeight: 279.4,
+    offsetX: 0,
+    offsetY: 0,
+    gapX: 0,
+    gapY: 0,
+    captionFontSize: 14,
+    defaultMarginMm: 20
+  },
+  'labels-a4-3x7': {
+    label: 'A4 label sheet, 21 per page (63.5 × 38.1 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    kind: 'labels',
+    columns: 3,
+    rows: 7,
+    cellWidth: 63.5,
+    cellHeight: 38.1,
+    offsetX: 7.2,
+    offsetY: 15.15,
+    gapX: 2.5,
+    gapY: 0,
+    captionFontSize: 6,
+    defaultMarginMm: 3
+  },
+  'labels-letter-3x10': {
+    label: 'Letter label sheet, 30 per page (2⅝ × 1 in)',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    kind: 'labels',
+    columns: 3,
+    rows: 10,
+    cellWidth: 66.675,
+    cellHeight: 25.4,
+    offsetX: 4.7625,
+    offsetY: 12.7,
+    gapX: 3.175,
+    gapY: 0,
+    captionFontSize: 5,
+    defaultMarginMm: 2
+  }
+}
+
+export interface PdfLayoutOptions {
+  template: PdfTemplateId
+  marginMm: number
+  bleedMm: number
+  caption: string
+  cropMarks: boolean
+}
+
+const PRINT_DPI = 300
+const MAX_RENDER_PX = 2048
+const CROP_MARK_GAP = 1
+const CROP_MARK_LENGTH = 5
+const PT_TO_MM = 25.4 / 72
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export function getPrintPixelSize(sizeMm: number) {
+  return Math.min(MAX_RENDER_PX, Math.ceil((sizeMm / 25.4) * PRINT_DPI))
+}
+
+function drawCropMarks(doc: jsPDF, trim: Rect, bleed: number) {
+  const start = bleed + CROP_MARK_GAP
+  const end = start + CROP_MARK_LENGTH
+  const left = trim.x
+  const right = trim.x + trim.width
+  const top = trim.y
+  const bottom = trim.y + trim.height
+
+  doc.setDrawColor(0, 0, 0)
+  doc.setLineWidth(0.25 * PT_TO_MM)
+
+  for (const x of [left, right]) {
+    doc.line(x, top - start, x, top - end)
+    doc.line(x, bottom + start, x, bottom + end)
+  }
+  for (const y of [top, bottom]) {
+    doc.line(left - start, y, left - end, y)
+    doc.line(right + start, y, right + end, y)
+  }
+}
+
+// Fits the code and its caption inside one cell, returning where each goes
+function layoutCell(cell: Rect, margin: number, captionLines: number, fontSize: number) {
+  const lineHeight = fontSize * PT_TO_MM * 1.2
+  const captionHeight = captionLines > 0 ? captionLines * lineHeight + lineHeight / 2 : 0
+  const contentWidth = Math.max(0, cell.width - margin * 2)
+  const contentHeight = Math.max(0, cell.height - margin * 2 - captionHeight)
+  const codeSize = Math.min(contentWidth, contentHeight)
+  const blockHeight = codeSize + captionHeight
+  const codeX = cell.x + (cell.width - codeSize) / 2
+  const codeY = cell.y + (cell.height - blockHeight) / 2
+
+  return {
+    codeSize,
+    codeX,
+    codeY,
+    captionX: cell.x + cell.width / 2,
+    captionY: codeY + codeSize + lineHeight / 2,
+    captionWidth: contentWidth
+  }
+}
+
+function getCells(template: PdfTemplate, origin: number): Rect[] {
+  const cells: Rect[] = []
+  for (let row = 0; row < template.rows; row++) {
+    for (let column = 0; column < template.columns; column++) {
+      cells.push({
+        x: origin + template.offsetX + column * (template.cellWidth + template.gapX),
+        y: origin + template.offsetY + row * (template.cellHeight + template.gapY),
+        width: template.cellWidth,
+        height: template.cellHeight
+      })
+    }
+  }
+  return cells
+}
+
+// Lays the code out on a print template. `renderImage` is given the pixel size
+// needed for 300dpi output and must return a PNG data URL of the finished code.
+export async function createQRPdf(
+  options: PdfLayoutOptions,
+  renderImage: (pixelSize: number) => Promise<string>
+): Promise<Blob> {
+  const template = PDF_TEMPLATES[options.template]
+  const isPage = template.kind === 'page'
+  const bleed = isPage ? Math.max(0, options.bleedMm) : 0
+  const slug = isPage && options.cropMarks ? CROP_MARK_GAP + CROP_MARK_LENGTH + 1 : 0
+  const origin = bleed + slug
+  const pageWidth = template.pageWidth + origin * 2
+  const pageHeight = template.pageHeight + origin * 2
+
+  const doc = new jsPDF({
+    unit: 'mm',
+    format: [pageWidth, pageHeight],
+    orientation: pageHeight >= pageWidth ? 'portrait' : 'landscape'
+  })
+
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(template.captionFontSize)
+
+  const cells = getCells(template, origin)
+  const margin = Math.max(0, options.marginMm)
+  const probe = layoutCell(cells[0], margin, 0, template.captionFontSize)
+  const captionLines: string[] = options.caption
+    ? (doc.splitTextToSize(options.caption, probe.captionWidth) as string[]).slice(0, 2)
+    : []
+  const layout = layoutCell(cells[0], margin, captionLines.length, template.captionFontSize)
+
+  if (layout.codeSize <= 0) {
+    throw new Error('Margins leave no room for the QR code')
+  }
+
+  const image = await renderImage(getPrintPixelSize(layout.codeSize))
+
+  for (const cell of cells) {
+    const placed = layoutCell(cell, margin, captionLines.length, template.captionFontSize)
+    doc.addImage(image, 'PNG', placed.codeX, placed.codeY, placed.codeSize, placed.codeSize, 'qr-code', 'FAST')
+    if (captionLines.length > 0) {
+      doc.setTextColor(31, 41, 55)
+      doc.text(captionLines, placed.captionX, placed.captionY, { align: 'center', baseline: 'top' })
+    }
+  }
+
+  if (isPage && options.cropMarks) {
+    drawCropMarks(doc, { x: origin, y: origin, width: template.pageWidth, height: template.pageHeight }, bleed)
+  }
+
+  return doc.output('blob')
+}
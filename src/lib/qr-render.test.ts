@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import jsQR from 'jsqr'
+import { renderQR } from './qr-render'
+import type { Canvas2DContext, CanvasBackend } from './qr-canvas'
+import { loadNodeCanvasBackend } from '../cli/node-canvas'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47]
+const LOGO_SRC = 'data:image/png;base64,logo'
+
+// Records the drawing calls the core makes, without a native canvas
+function createRecordingBackend(options: { failLogo?: boolean } = {}) {
+  const calls: string[] = []
+  const loaded: string[] = []
+  const state: Record<string | symbol, unknown> = {}
+
+  const ctx = new Proxy(state, {
+    get(target, prop) {
+      if (prop in target) return target[prop]
+      return () => {
+        calls.push(String(prop))
+        // Gradients
+        return { addColorStop: () => undefined }
+      }
+    },
+    set(target, prop, value) {
+      target[prop] = value
+      return true
+    }
+  }) as unknown as Canvas2DContext
+
+  const backend: CanvasBackend = {
+    createContext: () => ctx,
+    createPath: (d) => ({ d }) as unknown as Path2D,
+    async loadImage(src) {
+      loaded.push(src)
+      if (options.failLogo) throw new Error('Image failed to load')
+      return { source: {} as CanvasImageSource, width: 64, height: 64 }
+    },
+    encodePng: async () => new Uint8Array([...PNG_SIGNATURE, 1, 2, 3])
+  }
+  return { backend, calls, loaded }
+}
+
+describe('renderQR', () => {
+  it('renders SVG without a canvas backend', async () => {
+    const result = await renderQR('https://example.com', { format: 'svg', width: 256, margin: 2 })
+
+    expect(result.output).toMatch(/^<svg[^>]+viewBox="0 0 \d+ \d+"/)
+    expect(result.output).toContain('width="256"')
+    expect(result.text).toBe('https://example.com')
+    expect(result.logoApplied).toBe(false)
+  })
+
+  it('escapes colors written into SVG attributes', async () => {
+    const result = await renderQR('https://example.com', {
+      format: 'svg',
+      colors: { background: '#fff"/><script>', gradientType: 'linear', gradientColor: '#000"' }
+    })
+
+    expect(result.output).not.toContain('<script>')
+    expect(result.output).toContain('fill="#fff&quot;/>&lt;script>"')
+    expect(result.output).toContain('stop-color="#000&quot;"')
+  })
+
+  it('encodes structured payloads before rendering', async () => {
+    const result = await renderQR({ type: 'phone', values: { phone: '+1 (555) 010-9999' } }, { format: 'svg' })
+    expect(result.text).toBe('tel:+15550109999')
+  })
+
+  it('embeds the logo in SVG output and raises auto error correction for it', async () => {
+    const plain = await renderQR('https://example.com', { format: 'svg', errorCorrection: 'auto' })
+    const withLogo = await renderQR('https://example.com', {
+      format: 'svg',
+      errorCorrection: 'auto',
+      logo: { src: LOGO_SRC, options: { scale: 0.25 } }
+    })
+
+    expect(plain.output).not.toContain('<image')
+    expect(withLogo.output).toContain(`href="${LOGO_SRC}"`)
+    expect(withLogo.logoApplied).toBe(true)
+    expect('LMQH'.indexOf(withLogo.errorCorrectionLevel)).toBeGreaterThan('LMQH'.indexOf(plain.errorCorrectionLevel))
+  })
+
+  it('draws PNG output through the injected backend', async () => {
+    const { backend, calls, loaded } = createRecordingBackend()
+    const result = await renderQR('https://example.com', { format: 'png', canvas: backend })
+
+    expect([...result.output.slice(0, 4)]).toEqual(PNG_SIGNATURE)
+    expect(calls).toContain('fill')
+    expect(calls).not.toContain('drawImage')
+    expect(loaded).toEqual([])
+  })
+
+  it('loads and draws the logo through the backend', async () => {
+    const { backend, calls, loaded } = createRecordingBackend()
+    const result = await renderQR('https://example.com', { format: 'png', canvas: backend, logo: { src: LOGO_SRC } })
+
+    expect(loaded).toEqual([LOGO_SRC])
+    expect(calls).toContain('drawImage')
+    expect(result.logoApplied).toBe(true)
+  })
+
+  it('renders without the logo when it fails to load', async () => {
+    const { backend, calls } = createRecordingBackend({ failLogo: true })
+    const result = await renderQR('https://example.com', { format: 'png', canvas: backend, logo: { src: LOGO_SRC } })
+
+    expect(calls).not.toContain('drawImage')
+    expect(result.logoApplied).toBe(false)
+  })
+
+  it('returns PNG data URLs', async () => {
+    const { backend } = createRecordingBackend()
+    const result = await renderQR('https://example.com', { format: 'data-url', canvas: backend })
+    expect(result.output).toBe(`data:image/png;base64,${btoa(String.fromCharCode(...PNG_SIGNATURE, 1, 2, 3))}`)
+  })
+
+  it('rejects content too long for a QR code', async () => {
+    await expect(renderQR('x'.repeat(5000), { format: 'svg' })).rejects.toThrow('Content is too long for a QR code')
+  })
+
+  it('rejects invalid structured payloads', async () => {
+    await expect(renderQR({ type: 'phone', values: { phone: '' } }, { format: 'svg' })).rejects.toThrow()
+  })
+
+  it('requires a canvas backend for raster output', async () => {
+    await expect(renderQR('https://example.com', { format: 'png' })).rejects.toThrow('A canvas backend is required')
+  })
+})
+
+// End-to-end through a real canvas; @napi-rs/canvas is optional, so skip without it
+const nodeCanvas = await loadNodeCanvasBackend().catch(() => null)
+
+describe.skipIf(!nodeCanvas)('renderQR with @napi-rs/canvas', () => {
+  it('renders a PNG that decodes back to the content', async () => {
+    const canvas = nodeCanvas as CanvasBackend
+    const { output } = await renderQR('https://example.com/menu', { format: 'png', width: 256, canvas })
+
+    const image = await canvas.loadImage(`data:image/png;base64,${Buffer.from(output).toString('base64')}`)
+    const ctx = canvas.createContext(image.width, image.height)
+    ctx.drawImage(image.source, 0, 0)
+    const { data } = ctx.getImageData(0, 0, image.width, image.height)
+
+    expect(jsQR(new Uint8ClampedArray(data), image.width, image.height)?.data).toBe('https://example.com/menu')
+  })
+})
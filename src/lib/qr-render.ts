@@ -0,0 +1,147 @@
+import { DEFAULT_QR_DESIGN } from './design'
+import { encodePayload, type PayloadValues, type StructuredPayloadType } from './payloads'
+import { drawQRCode, type CanvasBackend, type CanvasImage, type QRRenderOptions } from './qr-canvas'
+import { DEFAULT_QR_COLORS, type QRColors } from './qr-colors'
+import { resolveErrorCorrection, type ErrorCorrectionLevel, type ErrorCorrectionSetting } from './qr-ecc'
+import { DEFAULT_LOGO_OPTIONS, drawLogo, getLogoFootprint, type LogoOptions } from './qr-logo'
+import { DEFAULT_QR_STYLE, type QRStyle } from './qr-shapes'
+import { createQRSvg } from './qr-svg'
+
+// Rendering core shared by the generator, the render worker and scripts. It has no
+// React or DOM dependencies: raster output draws through an injected CanvasBackend,
+// and SVG output needs no canvas at all.
+
+// Raw text to encode, or a structured payload to validate and encode first
+export type QRPayload = string | { type: StructuredPayloadType; values: PayloadValues }
+
+export type QROutputFormat = 'png' | 'svg' | 'data-url'
+
+export interface QROutputs {
+  png: Uint8Array
+  svg: string
+  // PNG as a base64 data URL
+  'data-url': string
+}
+
+export interface QRLogoInput {
+  // URL or data URL. SVG output embeds it as-is; raster output loads it through
+  // the canvas backend unless `image` is given.
+  src?: string
+  // Already decoded image, e.g. an ImageBitmap transferred to a worker
+  image?: CanvasImage
+  options?: Partial<LogoOptions>
+  // Scales the logo's pixel settings, e.g. when re-rendering at print resolution
+  unit?: number
+}
+
+export interface RenderQROptions<F extends QROutputFormat = QROutputFormat> {
+  format: F
+  // Pixel width of the square image (also the SVG's width attribute)
+  width?: number
+  // Quiet zone in modules
+  margin?: number
+  errorCorrection?: ErrorCorrectionSetting
+  colors?: Partial<QRColors>
+  style?: Partial<QRStyle>
+  logo?: QRLogoInput | null
+  // Required for 'png' and 'data-url'
+  canvas?: CanvasBackend
+}
+
+export interface RenderQRResult<F extends QROutputFormat = QROutputFormat> {
+  format: F
+  output: QROutputs[F]
+  // The encoded text, after structured payloads are encoded
+  text: string
+  errorCorrectionLevel: ErrorCorrectionLevel
+  // False when a logo was requested but couldn't be loaded
+  logoApplied: boolean
+}
+
+function encodeText(payload: QRPayload): string {
+  if (typeof payload === 'string') {
+    if (!payload) throw new Error('Nothing to encode')
+    return payload
+  }
+
+  const result = encodePayload(payload.type, payload.values)
+  if (!result.ok) throw new Error(Object.values(result.errors)[0] ?? 'Invalid payload')
+  return result.text
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  // Chunked so large images don't overflow the argument limit of fromCharCode
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`
+}
+
+async function loadLogoImage(logo: QRLogoInput, canvas: CanvasBackend): Promise<CanvasImage | null> {
+  if (logo.image) return logo.image
+  if (!logo.src) return null
+
+  try {
+    return await canvas.loadImage(logo.src)
+  } catch (error) {
+    console.warn('⚠️ Logo could not be loaded, rendering without it:', logo.src, error)
+    return null
+  }
+}
+
+// Encodes the payload, picks the error correction level (for 'auto', the lowest
+// that still covers the logo), excavates and overlays the logo, and returns the
+// image in the requested format. Throws when the payload is invalid or too long.
+export async function renderQR<F extends QROutputFormat>(
+  payload: QRPayload,
+  options: RenderQROptions<F>
+): Promise<RenderQRResult<F>> {
+  const text = encodeText(payload)
+  const width = options.width ?? parseInt(DEFAULT_QR_DESIGN.size)
+  const margin = options.margin ?? DEFAULT_QR_DESIGN.margin
+  const logoOptions: LogoOptions = { ...DEFAULT_LOGO_OPTIONS, ...options.logo?.options }
+  const unit = options.logo?.unit ?? 1
+  const isSvg = options.format === 'svg'
+
+  const canvas = options.canvas
+  // Decode the logo before choosing the level so a logo that fails to load doesn't
+  // cost error correction or leave an excavated hole
+  let logoImage: CanvasImage | null = null
+  if (options.logo && canvas && !isSvg) logoImage = await loadLogoImage(options.logo, canvas)
+  const hasLogo = isSvg ? Boolean(options.logo?.src) : logoImage !== null
+
+  const budget = resolveErrorCorrection(
+    text,
+    options.errorCorrection ?? DEFAULT_QR_DESIGN.errorCorrection,
+    width,
+    margin,
+    hasLogo ? logoOptions : null,
+    unit
+  )
+  if (!budget) throw new Error('Content is too long for a QR code')
+
+  const renderOptions: QRRenderOptions = {
+    width,
+    margin,
+    errorCorrectionLevel: budget.level,
+    colors: { ...DEFAULT_QR_COLORS, ...options.colors },
+    style: { ...DEFAULT_QR_STYLE, ...options.style },
+    clearance: hasLogo && logoOptions.excavate ? getLogoFootprint(logoOptions, width, unit) : null
+  }
+  const result = { text, errorCorrectionLevel: budget.level, logoApplied: hasLogo }
+
+  if (isSvg) {
+    const svg = createQRSvg(text, renderOptions, hasLogo ? options.logo?.src : undefined, logoOptions, unit)
+    return { ...result, format: options.format, output: svg as QROutputs[F] }
+  }
+
+  if (!canvas) throw new Error(`A canvas backend is required for ${options.format} output`)
+  const ctx = canvas.createContext(width, width)
+  drawQRCode(ctx, text, renderOptions, canvas.createPath)
+  if (logoImage) drawLogo(ctx, logoImage, width, logoOptions, unit, canvas.createPath)
+
+  const png = await canvas.encodePng(ctx)
+  const output = options.format === 'png' ? png : bytesToDataUrl(png, 'image/png')
+  return { ...result, format: options.format, output: output as QROutputs[F] }
+}
@@ -0,0 +1,29 @@
+import { offscreenCanvasBackend } from './qr-canvas'
+import { renderQR } from './qr-render'
+import type { QRWorkerRequest, QRWorkerResponse } from './qr-worker'
+
+// Runs the rendering core on an OffscreenCanvas, off the main thread
+self.onmessage = async (event: MessageEvent<QRWorkerRequest>) => {
+  const { id, text, options, logo } = event.data
+  let response: QRWorkerResponse
+
+  try {
+    const { output, logoApplied } = await renderQR(text, {
+      ...options,
+      format: 'data-url',
+      canvas: offscreenCanvasBackend,
+      logo: logo && {
+        image: { source: logo.image, width: logo.image.width, height: logo.image.height },
+        options: logo.options,
+        unit: logo.unit
+      }
+    })
+    response = { id, ok: true, dataUrl: output, logoApplied }
+  } catch (error) {
+    response = { id, ok: false, message: error instanceof Error ? error.message : 'Rendering failed' }
+  } finally {
+    logo?.image.close()
+  }
+
+  self.postMessage(response)
+}
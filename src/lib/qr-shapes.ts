@@ -0,0 +1,178 @@
+import QRCode from 'qrcode'
+import type { QRCodeErrorCorrectionLevel } from 'qrcode'
+
+export type ModuleShape = 'square' | 'dots' | 'rounded' | 'extra-rounded' | 'classy'
+export type FinderFrameShape = 'square' | 'rounded' | 'circle'
+export type FinderPupilShape = 'square' | 'rounded' | 'circle'
+
+export interface QRStyle {
+  moduleShape: ModuleShape
+  finderFrameShape: FinderFrameShape
+  finderPupilShape: FinderPupilShape
+  // null paints the finder pattern with the module fill (including gradients)
+  finderFrameColor: string | null
+  finderPupilColor: string | null
+}
+
+export const DEFAULT_QR_STYLE: QRStyle = {
+  moduleShape: 'square',
+  finderFrameShape: 'square',
+  finderPupilShape: 'square',
+  finderFrameColor: null,
+  finderPupilColor: null
+}
+
+export const MODULE_SHAPE_LABELS: Record<ModuleShape, string> = {
+  square: 'Square',
+  dots: 'Dots',
+  rounded: 'Rounded',
+  'extra-rounded': 'Extra rounded',
+  classy: 'Classy'
+}
+
+export const FINDER_SHAPE_LABELS: Record<FinderFrameShape, string> = {
+  square: 'Square',
+  rounded: 'Rounded',
+  circle: 'Circle'
+}
+
+// SVG path data in module units, offset by the quiet zone. The same strings
+// are drawn on canvas through Path2D so both outputs stay identical.
+export interface QRPaths {
+  moduleCount: number
+  viewBoxSize: number
+  modules: string
+  // Rings drawn with the even-odd rule
+  finderFrames: string
+  finderPupils: string
+}
+
+// Centred area kept free of modules behind a logo. halfSize is a fraction of
+// the full symbol width (quiet zone included) so it holds at any pixel size.
+export interface ModuleClearance {
+  shape: 'circle' | 'square'
+  halfSize: number
+}
+
+const FINDER_SIZE = 7
+
+const n = (value: number) => Number(value.toFixed(3))
+
+export type CornerRadii = [number, number, number, number]
+
+// Rectangle with individually rounded corners, clockwise from top-left
+export function roundedRect(x: number, y: number, width: number, height: number, [tl, tr, br, bl]: CornerRadii) {
+  const arc = (r: number, toX: number, toY: number) => r > 0 ? `A${n(r)} ${n(r)} 0 0 1 ${n(toX)} ${n(toY)}` : ''
+
+  return [
+    `M${n(x + tl)} ${n(y)}`,
+    `H${n(x + width - tr)}`,
+    arc(tr, x + width, y + tr),
+    `V${n(y + height - br)}`,
+    arc(br, x + width - br, y + height),
+    `H${n(x + bl)}`,
+    arc(bl, x, y + height - bl),
+    `V${n(y + tl)}`,
+    arc(tl, x + tl, y),
+    'Z'
+  ].join('')
+}
+
+export function circle(cx: number, cy: number, r: number) {
+  return `M${n(cx - r)} ${n(cy)}A${n(r)} ${n(r)} 0 1 0 ${n(cx + r)} ${n(cy)}A${n(r)} ${n(r)} 0 1 0 ${n(cx - r)} ${n(cy)}Z`
+}
+
+function isFinderModule(row: number, col: number, size: number) {
+  const inTop = row < FINDER_SIZE
+  const inLeft = col < FINDER_SIZE
+  const inRight = col >= size - FINDER_SIZE
+  const inBottom = row >= size - FINDER_SIZE
+  return (inTop && inLeft) || (inTop && inRight) || (inBottom && inLeft)
+}
+
+// True when any part of the unit module at (x, y) falls inside the clearance
+export function overlapsClearance(x: number, y: number, viewBoxSize: number, clearance: ModuleClearance) {
+  const center = viewBoxSize / 2
+  const half = clearance.halfSize * viewBoxSize
+  // Distance from the centre to the nearest point of the module
+  const dx = Math.max(x - center, 0, center - (x + 1))
+  const dy = Math.max(y - center, 0, center - (y + 1))
+  return clearance.shape === 'circle' ? dx * dx + dy * dy < half * half : dx < half && dy < half
+}
+
+function modulePath(shape: ModuleShape, x: number, y: number, isDark: (dx: number, dy: number) => boolean) {
+  if (shape === 'square') return roundedRect(x, y, 1, 1, [0, 0, 0, 0])
+  if (shape === 'dots') return circle(x + 0.5, y + 0.5, 0.5)
+
+  const top = isDark(0, -1)
+  const right = isDark(1, 0)
+  const bottom = isDark(0, 1)
+  const left = isDark(-1, 0)
+
+  // Only corners with no neighbour on either side are rounded, so runs of
+  // modules merge into continuous blobs
+  const radius = shape === 'rounded' ? 0.25 : 0.5
+  const exposed: [boolean, boolean, boolean, boolean] = [!top && !left, !top && !right, !bottom && !right, !bottom && !left]
+
+  if (shape === 'classy') {
+    return roundedRect(x, y, 1, 1, [exposed[0] ? radius : 0, 0, exposed[2] ? radius : 0, 0])
+  }
+
+  return roundedRect(x, y, 1, 1, exposed.map((isExposed) => isExposed ? radius : 0) as CornerRadii)
+}
+
+function finderFramePath(shape: FinderFrameShape, x: number, y: number) {
+  if (shape === 'circle') {
+    return circle(x + 3.5, y + 3.5, 3.5) + circle(x + 3.5, y + 3.5, 2.5)
+  }
+  const outer = shape === 'rounded' ? 2 : 0
+  const inner = shape === 'rounded' ? 1 : 0
+  return roundedRect(x, y, 7, 7, [outer, outer, outer, outer]) +
+    roundedRect(x + 1, y + 1, 5, 5, [inner, inner, inner, inner])
+}
+
+function finderPupilPath(shape: FinderPupilShape, x: number, y: number) {
+  if (shape === 'circle') return circle(x + 3.5, y + 3.5, 1.5)
+  const radius = shape === 'rounded' ? 1 : 0
+  return roundedRect(x + 2, y + 2, 3, 3, [radius, radius, radius, radius])
+}
+
+export function buildQRPaths(
+  text: string,
+  errorCorrectionLevel: QRCodeErrorCorrectionLevel,
+  margin: number,
+  style: QRStyle,
+  clearance: ModuleClearance | null = null
+): QRPaths {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel })
+  const size = modules.size
+  const viewBoxSize = size + margin * 2
+
+  // Cleared modules count as light so neighbouring shapes round off against the logo
+  const isDark = (row: number, col: number) =>
+    row >= 0 && col >= 0 && row < size && col < size &&
+    !isFinderModule(row, col, size) && modules.get(row, col) === 1 &&
+    !(clearance && overlapsClearance(col + margin, row + margin, viewBoxSize, clearance))
+
+  let modulesPath = ''
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (!isDark(row, col)) continue
+      modulesPath += modulePath(style.moduleShape, col + margin, row + margin, (dx, dy) => isDark(row + dy, col + dx))
+    }
+  }
+
+  const finderOrigins = [
+    [margin, margin],
+    [margin + size - FINDER_SIZE, margin],
+    [margin, margin + size - FINDER_SIZE]
+  ]
+
+  return {
+    moduleCount: size,
+    viewBoxSize,
+    modules: modulesPath,
+    finderFrames: finderOrigins.map(([x, y]) => finderFramePath(style.finderFrameShape, x, y)).join(''),
+    finderPupils: finderOrigins.map(([x, y]) => finderPupilPath(style.finderPupilShape, x, y)).join('')
+  }
+}
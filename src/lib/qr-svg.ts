@@ -0,0 +1,71 @@
+import type { QRRenderOptions } from './qr-canvas'
+import { createSvgGradient } from './qr-colors'
+import { DEFAULT_LOGO_OPTIONS, getLogoGeometry, logoShapePath, type LogoOptions } from './qr-logo'
+import { buildQRPaths } from './qr-shapes'
+
+const LOGO_CLIP_ID = 'qr-logo-clip'
+const FILL_GRADIENT_ID = 'qr-fill'
+
+// Same geometry as the canvas overlay in drawLogo, with the pixel settings
+// converted to module units
+function buildLogoOverlay(viewBoxSize: number, pixelWidth: number, logoHref: string, options: LogoOptions, unit: number) {
+  const px = (viewBoxSize / pixelWidth) * unit
+  const { center, logoSize, padHalf } = getLogoGeometry(viewBoxSize, options, px)
+  const logoOrigin = center - logoSize / 2
+  const image = (clip: string) =>
+    `<image href="${escapeAttribute(logoHref)}" x="${logoOrigin}" y="${logoOrigin}" width="${logoSize}" height="${logoSize}" preserveAspectRatio="xMidYMid meet"${clip}/>`
+
+  if (options.shape === 'none') return image('')
+
+  const stroke = options.borderWidth > 0
+    ? ` stroke="${escapeAttribute(options.borderColor)}" stroke-width="${options.borderWidth * px}"`
+    : ''
+
+  return [
+    `<defs><clipPath id="${LOGO_CLIP_ID}"><path d="${logoShapePath(options.shape, center, logoSize / 2)}"/></clipPath></defs>`,
+    `<path d="${logoShapePath(options.shape, center, padHalf)}" fill="${escapeAttribute(options.padColor)}"${stroke}/>`,
+    image(` clip-path="url(#${LOGO_CLIP_ID})"`)
+  ].join('')
+}
+
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+}
+
+// Renders a vector QR code from the same module paths as the canvas preview,
+// optionally embedding a logo so the file matches the PNG at any print size.
+export function createQRSvg(
+  text: string,
+  options: QRRenderOptions,
+  logoHref?: string,
+  logoOptions: LogoOptions = DEFAULT_LOGO_OPTIONS,
+  logoUnit = 1
+): string {
+  const { colors, style } = options
+  const paths = buildQRPaths(text, options.errorCorrectionLevel, options.margin, style, options.clearance)
+  const { viewBoxSize } = paths
+  // Colors are escaped like every other attribute value written into the file
+  const gradient = createSvgGradient(FILL_GRADIENT_ID, {
+    ...colors,
+    foreground: escapeAttribute(colors.foreground),
+    gradientColor: escapeAttribute(colors.gradientColor)
+  }, viewBoxSize)
+  const moduleFill = gradient ? `url(#${FILL_GRADIENT_ID})` : escapeAttribute(colors.foreground)
+  const isSquare = style.moduleShape === 'square' && style.finderFrameShape === 'square' && style.finderPupilShape === 'square'
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.width}" viewBox="0 0 ${viewBoxSize} ${viewBoxSize}"${isSquare ? ' shape-rendering="crispEdges"' : ''}>`,
+    gradient ? `<defs>${gradient}</defs>` : '',
+    colors.transparentBackground ? '' : `<rect width="${viewBoxSize}" height="${viewBoxSize}" fill="${escapeAttribute(colors.background)}"/>`,
+    `<path fill="${moduleFill}" d="${paths.modules}"/>`,
+    `<path fill="${style.finderFrameColor ? escapeAttribute(style.finderFrameColor) : moduleFill}" fill-rule="evenodd" d="${paths.finderFrames}"/>`,
+    `<path fill="${style.finderPupilColor ? escapeAttribute(style.finderPupilColor) : moduleFill}" d="${paths.finderPupils}"/>`,
+    logoHref ? buildLogoOverlay(viewBoxSize, options.width, logoHref, logoOptions, logoUnit) : '',
+    '</svg>\n'
+  ]
+
+  return parts.join('')
+}
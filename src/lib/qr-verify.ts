@@ -0,0 +1,61 @@
+import jsQR from 'jsqr'
+import { loadImage } from './image'
+
+export type ScanStatus = 'verified' | 'mismatch' | 'unreadable'
+
+export interface ScanVerification {
+  status: ScanStatus
+  // What the decoder read back, null when nothing could be decoded
+  decodedText: string | null
+  message: string
+}
+
+const MAX_PREVIEW_LENGTH = 60
+
+const preview = (text: string) =>
+  text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text
+
+// Decodes the final image (logo and styling included) and checks it reads back as
+// the expected text. Catches logos that cover more than error correction can recover.
+export async function verifyQRImage(dataUrl: string, expectedText: string): Promise<ScanVerification> {
+  let decodedText: string | null = null
+
+  try {
+    const image = await loadImage(dataUrl, 10000)
+    const canvas = document.createElement('canvas')
+    canvas.width = image.width
+    canvas.height = image.height
+
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) throw new Error('Canvas context not available')
+
+    // Transparent pixels read as black, so composite onto white like a printed page
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.drawImage(image, 0, 0)
+
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+    // Light-on-dark palettes are still valid codes for most scanners
+    decodedText = jsQR(data, width, height, { inversionAttempts: 'attemptBoth' })?.data ?? null
+  } catch (error) {
+    console.error('❌ QR verification failed:', error)
+  }
+
+  if (decodedText === null) {
+    return {
+      status: 'unreadable',
+      decodedText,
+      message: 'No QR code could be read from the image. Try a smaller logo, stronger contrast or square modules.'
+    }
+  }
+
+  if (decodedText !== expectedText) {
+    return {
+      status: 'mismatch',
+      decodedText,
+      message: `Scans as "${preview(decodedText)}" instead of the expected content.`
+    }
+  }
+
+  return { status: 'verified', decodedText, message: 'Decoded content matches the input.' }
+}
@@ -0,0 +1,120 @@
+import { loadImage } from './image'
+import { browserCanvasBackend } from './qr-canvas'
+import type { LogoOptions } from './qr-logo'
+import { renderQR, type RenderQROptions } from './qr-render'
+
+// Rendering options that can be posted to the worker (no logo or canvas backend)
+export type QRImageOptions = Omit<RenderQROptions, 'format' | 'logo' | 'canvas'>
+
+// Message protocol of qr-render.worker.ts. The logo is decoded on the main thread
+// (where <img> handles SVG and CORS) and transferred as an ImageBitmap.
+export interface QRWorkerRequest {
+  id: number
+  text: string
+  options: QRImageOptions
+  logo: { image: ImageBitmap; options: LogoOptions; unit: number } | null
+}
+
+export type QRWorkerResponse =
+  | { id: number; ok: true; dataUrl: string; logoApplied: boolean }
+  | { id: number; ok: false; message: string }
+
+export interface QRImageLogo {
+  src: string
+  options: LogoOptions
+  // Scales the logo's pixel settings, e.g. when re-rendering at print resolution
+  unit?: number
+}
+
+export interface QRImageResult {
+  dataUrl: string
+  // False when a logo was requested but couldn't be loaded
+  logoApplied: boolean
+}
+
+const supportsWorkerRendering = typeof Worker !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined'
+  && typeof createImageBitmap !== 'undefined'
+
+let worker: Worker | null = null
+// Set once the worker fails to start or crashes; rendering stays on the main thread after that
+let workerBroken = false
+let nextRequestId = 0
+const pending = new Map<number, { resolve: (result: QRImageResult) => void; reject: (error: Error) => void }>()
+
+function getWorker(): Worker | null {
+  if (!supportsWorkerRendering || workerBroken) return null
+  if (worker) return worker
+
+  worker = new Worker(new URL('./qr-render.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<QRWorkerResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+    pending.delete(response.id)
+    if (response.ok) {
+      request.resolve({ dataUrl: response.dataUrl, logoApplied: response.logoApplied })
+    } else {
+      request.reject(new Error(response.message))
+    }
+  }
+  worker.onerror = (event) => {
+    console.warn('⚠️ QR render worker failed:', event.message)
+    workerBroken = true
+    worker?.terminate()
+    worker = null
+    for (const request of pending.values()) request.reject(new Error('Render worker unavailable'))
+    pending.clear()
+  }
+  return worker
+}
+
+function renderInWorker(target: Worker, request: Omit<QRWorkerRequest, 'id'>): Promise<QRImageResult> {
+  const id = ++nextRequestId
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    target.postMessage({ ...request, id } satisfies QRWorkerRequest, request.logo ? [request.logo.image] : [])
+  })
+}
+
+async function decodeLogo(src: string): Promise<ImageBitmap | null> {
+  try {
+    return await createImageBitmap(await loadImage(src, 8000))
+  } catch (error) {
+    console.warn('⚠️ Logo could not be decoded:', src, error)
+    return null
+  }
+}
+
+// Renders the styled code through the rendering core, with the logo composited on
+// top when given, in a Web Worker so large codes and batches don't block the UI.
+// Falls back to the main thread where OffscreenCanvas or module workers aren't available.
+export async function renderQRImage(
+  text: string,
+  options: QRImageOptions,
+  logo: QRImageLogo | null = null
+): Promise<QRImageResult> {
+  const target = getWorker()
+  if (target) {
+    const image = logo ? await decodeLogo(logo.src) : null
+    try {
+      return await renderInWorker(target, {
+        text,
+        options,
+        logo: logo && image ? { image, options: logo.options, unit: logo.unit ?? 1 } : null
+      })
+    } catch (error) {
+      // Errors from the render itself (e.g. content too long) are the caller's to report
+      if (!workerBroken) throw error
+      console.warn('⚠️ Falling back to main-thread rendering:', error)
+    }
+  }
+
+  const { output, logoApplied } = await renderQR(text, {
+    ...options,
+    format: 'data-url',
+    canvas: browserCanvasBackend,
+    logo
+  })
+  return { dataUrl: output, logoApplied }
+}
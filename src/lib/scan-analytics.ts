@@ -0,0 +1,83 @@
+import { toCsv } from './csv'
+
+// Scans of dynamic codes, recorded by the redirect service on each visit to a
+// short link. Only coarse classes are kept: no IP address or full user agent.
+
+export type ScanDevice = 'mobile' | 'tablet' | 'desktop' | 'bot' | 'other'
+
+export interface ScanEvent {
+  slug: string
+  timestamp: number
+  device: ScanDevice
+  // Host of the referring page, empty when none was sent (the usual case for camera apps)
+  referrer: string
+  // Preferred language tag, e.g. "en-US"; empty when the browser sent none
+  locale: string
+}
+
+export const SCAN_DEVICE_LABELS: Record<ScanDevice, string> = {
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+  desktop: 'Desktop',
+  bot: 'Bot',
+  other: 'Other'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dayKey = (time: number) => {
+  const date = new Date(time)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+// One row per local day for the last `days` days (today included), so quiet days
+// show as gaps rather than disappearing from the chart
+export function countScansByDay(events: ScanEvent[], days: number, now = Date.now()) {
+  const counts = new Map<string, number>()
+  for (let i = days - 1; i >= 0; i--) counts.set(dayKey(now - i * DAY_MS), 0)
+
+  for (const event of events) {
+    const key = dayKey(event.timestamp)
+    const count = counts.get(key)
+    if (count !== undefined) counts.set(key, count + 1)
+  }
+  return [...counts].map(([day, scans]) => ({ day, scans }))
+}
+
+export function countScansByDevice(events: ScanEvent[]) {
+  const counts = new Map<ScanDevice, number>()
+  for (const event of events) counts.set(event.device, (counts.get(event.device) ?? 0) + 1)
+  return [...counts]
+    .map(([device, scans]) => ({ device, scans }))
+    .sort((a, b) => b.scans - a.scans)
+}
+
+export function countScansBySlug(events: ScanEvent[]) {
+  const counts = new Map<string, number>()
+  for (const event of events) counts.set(event.slug, (counts.get(event.slug) ?? 0) + 1)
+  return [...counts]
+    .map(([slug, scans]) => ({ slug, scans }))
+    .sort((a, b) => b.scans - a.scans)
+}
+
+export function scansSince(events: ScanEvent[], days: number, now = Date.now()) {
+  const start = new Date(now - (days - 1) * DAY_MS).setHours(0, 0, 0, 0)
+  return events.filter((event) => event.timestamp >= start)
+}
+
+// Raw events, oldest first, with each link's short URL and current destination
+export function scanEventsToCsv(events: ScanEvent[], links: { slug: string; shortUrl: string; url: string }[]): string {
+  const bySlug = new Map(links.map((link) => [link.slug, link]))
+  const rows = [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((event) => [
+      new Date(event.timestamp).toISOString(),
+      event.slug,
+      bySlug.get(event.slug)?.shortUrl ?? '',
+      bySlug.get(event.slug)?.url ?? '',
+      event.device,
+      event.referrer,
+      event.locale
+    ])
+  return toCsv([['timestamp', 'slug', 'short_url', 'destination', 'device', 'referrer', 'locale'], ...rows])
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { isPlaceholderCode, type ShortLink } from './short-links'
+
+const link: ShortLink = {
+  slug: 'abcdef',
+  shortUrl: 'https://qr.example/r/abcdef',
+  url: 'https://example.com/',
+  editToken: 'token',
+  createdAt: 0,
+  updatedAt: 0
+}
+
+describe('isPlaceholderCode', () => {
+  it('locks a dynamic code previewed before its link exists', () => {
+    expect(isPlaceholderCode({ dynamicLink: true, shortLink: null })).toBe(true)
+  })
+
+  it('allows dynamic codes with a link and static codes', () => {
+    expect(isPlaceholderCode({ dynamicLink: true, shortLink: link })).toBe(false)
+    expect(isPlaceholderCode({ dynamicLink: false, shortLink: null })).toBe(false)
+  })
+})
@@ -0,0 +1,181 @@
+import { z } from 'zod'
+import type { ScanEvent } from './scan-analytics'
+
+// Short links made for dynamic codes. The code encodes `shortUrl`, and the
+// redirect service (src/server) sends scans on to `url`, which can change later.
+export interface ShortLink {
+  slug: string
+  shortUrl: string
+  // Current destination
+  url: string
+  // Returned once on creation; needed to change the destination
+  editToken: string
+  createdAt: number
+  updatedAt: number
+}
+
+const SHORT_LINKS_KEY = 'qr-short-links'
+// Services can require a token to create links (SHORT_LINK_CREATE_TOKEN); it is
+// entered in the app and kept in this browser rather than built into the bundle
+const CREATE_TOKEN_KEY = 'qr-short-link-create-token'
+
+// Origin of the redirect service. Defaults to the app's own origin, where the dev
+// server and the standalone server (which also serves the app) both mount it.
+export const SHORT_LINK_SERVICE = (import.meta.env.VITE_SHORT_LINK_SERVICE ?? '').replace(/\/+$/, '')
+
+const serviceBase = () => SHORT_LINK_SERVICE || window.location.origin
+
+export const shortLinkUrl = (slug: string) => `${serviceBase()}/r/${slug}`
+
+// Stands in for a link not created yet (live previews don't create links); as long
+// as real slugs, so the preview has the final code's size
+export const PREVIEW_SLUG = 'xxxxxx'
+
+// A dynamic code rendered without its link encodes PREVIEW_SLUG, which leads
+// nowhere; it can be looked at but not exported until Generate creates the link
+export function isPlaceholderCode({ dynamicLink, shortLink }: { dynamicLink: boolean; shortLink: ShortLink | null }) {
+  return dynamicLink && shortLink === null
+}
+
+const shortLinkSchema = z.object({
+  slug: z.string().min(1),
+  shortUrl: z.string().min(1),
+  url: z.string().min(1),
+  editToken: z.string().min(1),
+  createdAt: z.number(),
+  updatedAt: z.number()
+})
+
+const linkResponseSchema = z.object({
+  slug: z.string().min(1),
+  url: z.string().min(1),
+  createdAt: z.number(),
+  updatedAt: z.number()
+})
+
+// Links created from this browser, newest first
+export function loadShortLinks(): ShortLink[] {
+  const saved = localStorage.getItem(SHORT_LINKS_KEY)
+  if (!saved) return []
+
+  try {
+    const rows: unknown[] = JSON.parse(saved)
+    return rows.flatMap((row) => {
+      const parsed = shortLinkSchema.safeParse(row)
+      return parsed.success ? [parsed.data] : []
+    })
+  } catch (e) {
+    console.error('Failed to parse short links:', e)
+    return []
+  }
+}
+
+function saveShortLink(link: ShortLink) {
+  const others = loadShortLinks().filter((item) => item.slug !== link.slug)
+  localStorage.setItem(SHORT_LINKS_KEY, JSON.stringify([link, ...others]))
+}
+
+export function loadCreateToken(): string {
+  return localStorage.getItem(CREATE_TOKEN_KEY) ?? ''
+}
+
+export function saveCreateToken(token: string) {
+  if (token) {
+    localStorage.setItem(CREATE_TOKEN_KEY, token)
+  } else {
+    localStorage.removeItem(CREATE_TOKEN_KEY)
+  }
+}
+
+export function findShortLink(shortUrl: string): ShortLink | null {
+  return loadShortLinks().find((link) => link.shortUrl === shortUrl) ?? null
+}
+
+async function requestLink(path: string, init: RequestInit) {
+  let response: Response
+  try {
+    response = await fetch(`${serviceBase()}/api/links${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers }
+    })
+  } catch {
+    throw new Error('The short link service is not reachable')
+  }
+
+  const body: unknown = await response.json().catch(() => null)
+  if (!response.ok) {
+    const message = (body as { error?: unknown } | null)?.error
+    throw new Error(typeof message === 'string' ? message : `Short link service error (${response.status})`)
+  }
+  return body
+}
+
+export async function createShortLink(url: string): Promise<ShortLink> {
+  const token = loadCreateToken()
+  const body = await requestLink('', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: JSON.stringify({ url })
+  })
+  const parsed = linkResponseSchema.extend({ editToken: z.string().min(1) }).safeParse(body)
+  if (!parsed.success) throw new Error('Unexpected response from the short link service')
+
+  const link = { ...parsed.data, shortUrl: shortLinkUrl(parsed.data.slug) }
+  saveShortLink(link)
+  return link
+}
+
+// Points the link at a new destination; the printed code keeps working
+export async function updateShortLink(link: ShortLink, url: string): Promise<ShortLink> {
+  const body = await requestLink(`/${link.slug}`, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${link.editToken}` },
+    body: JSON.stringify({ url })
+  })
+  const parsed = linkResponseSchema.safeParse(body)
+  if (!parsed.success) throw new Error('Unexpected response from the short link service')
+
+  const updated = { ...link, url: parsed.data.url, updatedAt: parsed.data.updatedAt }
+  saveShortLink(updated)
+  return updated
+}
+
+const scanEventSchema = z.object({
+  slug: z.string().min(1),
+  timestamp: z.number(),
+  device: z.enum(['mobile', 'tablet', 'desktop', 'bot', 'other']).catch('other'),
+  referrer: z.string().catch(''),
+  locale: z.string().catch('')
+})
+
+// Scans of the link, which only its owner (the edit token) may read
+export async function fetchScanEvents(link: ShortLink): Promise<ScanEvent[]> {
+  const body = await requestLink(`/${link.slug}/scans`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${link.editToken}` }
+  })
+  const parsed = z.object({ scans: z.array(z.unknown()) }).safeParse(body)
+  if (!parsed.success) throw new Error('Unexpected response from the short link service')
+
+  return parsed.data.scans.flatMap((row) => {
+    const event = scanEventSchema.safeParse(row)
+    return event.success ? [event.data] : []
+  })
+}
+
+// This browser's link to `url`, compared in the service's normalized form
+// (e.g. with the trailing slash)
+export function findShortLinkTo(url: string): ShortLink | null {
+  let target: string
+  try {
+    target = new URL(url).toString()
+  } catch {
+    return null
+  }
+  return loadShortLinks().find((link) => link.url === target) ?? null
+}
+
+// Reuses this browser's link to `url` so regenerating a code doesn't mint a new one
+export async function ensureShortLink(url: string): Promise<ShortLink> {
+  return findShortLinkTo(url) ?? createShortLink(url)
+}
@@ -0,0 +1,82 @@
+import { PAYLOAD_TYPE_LABELS, type StructuredPayloadType } from './payloads'
+
+// Normalization for typed or pasted web links: completes the scheme of bare
+// domains, converts international domains to punycode (the URL parser does
+// this), optionally drops click-tracking parameters, and rejects anything that
+// isn't an http(s) link with a reason the form can show.
+
+export const ALLOWED_URL_SCHEMES = ['https:', 'http:']
+
+export type UrlProblem = 'empty' | 'scheme' | 'invalid' | 'host'
+
+export type NormalizedUrl =
+  | { ok: true; url: string; removedParams: string[] }
+  | { ok: false; problem: UrlProblem; message: string }
+
+export interface NormalizeUrlOptions {
+  stripTracking?: boolean
+}
+
+// Click identifiers added by ad and email platforms. Campaign (utm_) tags are kept:
+// they're usually added on purpose.
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'gclsrc', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid',
+  'li_fat_id', 'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'oly_anon_id',
+  'oly_enc_id', 'vero_id', 'rb_clickid', 's_cid', 'srsltid'
+])
+
+// Schemes that have their own payload type, which encodes them properly
+const PAYLOAD_SCHEMES: Record<string, StructuredPayloadType> = {
+  'mailto:': 'email',
+  'tel:': 'phone',
+  'sms:': 'sms',
+  'smsto:': 'sms',
+  'geo:': 'geo',
+  'wifi:': 'wifi'
+}
+
+// "name:" at the start, unless it's a host followed by a port ("localhost:3000")
+const SCHEME_PATTERN = /^([a-z][a-z\d+.-]*:)(?!\d)/i
+
+const fail = (problem: UrlProblem, message: string): NormalizedUrl => ({ ok: false, problem, message })
+
+function schemeMessage(scheme: string) {
+  const payloadType = PAYLOAD_SCHEMES[scheme]
+  if (payloadType) return `Use the ${PAYLOAD_TYPE_LABELS[payloadType]} type for ${scheme} codes`
+  return `${scheme} links aren't supported; use an http:// or https:// address`
+}
+
+export function normalizeUrl(input: string, options: NormalizeUrlOptions = {}): NormalizedUrl {
+  const trimmed = input.trim()
+  if (!trimmed) return fail('empty', 'Please enter a URL')
+  if (/\s/.test(trimmed)) return fail('invalid', 'URLs cannot contain spaces')
+
+  const scheme = trimmed.match(SCHEME_PATTERN)?.[1].toLowerCase()
+  if (scheme && !ALLOWED_URL_SCHEMES.includes(scheme)) return fail('scheme', schemeMessage(scheme))
+
+  // Bare domains ("example.com/menu") and protocol-relative links get https
+  const completed = scheme ? trimmed : `https:${trimmed.startsWith('//') ? '' : '//'}${trimmed}`
+
+  let url: URL
+  try {
+    url = new URL(completed)
+  } catch {
+    return fail('invalid', 'Please enter a valid URL (e.g., https://example.com)')
+  }
+
+  if (!url.hostname) return fail('host', 'The URL is missing a domain name')
+  // Without a typed scheme, a single word is more likely a typo than an intranet host
+  if (!scheme && !url.hostname.includes('.') && url.hostname !== 'localhost' && !url.hostname.startsWith('[')) {
+    return fail('host', `"${url.hostname}" is not a complete domain name (e.g., ${url.hostname}.com)`)
+  }
+
+  const removedParams: string[] = []
+  if (options.stripTracking) {
+    for (const name of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAMS.has(name.toLowerCase()) && !removedParams.includes(name)) removedParams.push(name)
+    }
+    removedParams.forEach((name) => url.searchParams.delete(name))
+  }
+
+  return { ok: true, url: url.toString(), removedParams }
+}
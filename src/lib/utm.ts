@@ -0,0 +1,135 @@
+import { z } from 'zod'
+import { normalizeUrl } from './url'
+
+// Campaign tags for URL payloads: the five standard utm_ parameters plus any
+// custom ones, written into the URL's query string
+
+export type UtmField = 'source' | 'medium' | 'campaign' | 'term' | 'content'
+
+export const UTM_FIELD_LABELS: Record<UtmField, string> = {
+  source: 'Source',
+  medium: 'Medium',
+  campaign: 'Campaign',
+  term: 'Term',
+  content: 'Content'
+}
+
+export const UTM_FIELD_PLACEHOLDERS: Record<UtmField, string> = {
+  source: 'e.g. flyer',
+  medium: 'e.g. print',
+  campaign: 'e.g. spring_sale',
+  term: 'optional',
+  content: 'optional'
+}
+
+const UTM_FIELDS = Object.keys(UTM_FIELD_LABELS) as UtmField[]
+
+const utmParamName = (field: UtmField) => `utm_${field}`
+
+export interface UtmParam {
+  name: string
+  value: string
+}
+
+export interface UtmTags {
+  fields: Record<UtmField, string>
+  custom: UtmParam[]
+}
+
+export const EMPTY_UTM_TAGS: UtmTags = {
+  fields: { source: '', medium: '', campaign: '', term: '', content: '' },
+  custom: []
+}
+
+// Bare domains are completed the same way the generator does
+const parseUrl = (url: string) => {
+  const normalized = normalizeUrl(url)
+  return normalized.ok ? new URL(normalized.url) : null
+}
+
+// The tags already in `url`, so the builder starts from what's there
+export function readUtmTags(url: string): UtmTags {
+  const params = parseUrl(url)?.searchParams
+  if (!params) return EMPTY_UTM_TAGS
+
+  const fields = { ...EMPTY_UTM_TAGS.fields }
+  for (const field of UTM_FIELDS) fields[field] = params.get(utmParamName(field)) ?? ''
+  return { fields, custom: [] }
+}
+
+// Filled-in parameters in query order; blank names and values are skipped
+function listParams(tags: UtmTags): UtmParam[] {
+  const standard = UTM_FIELDS.map((field) => ({ name: utmParamName(field), value: tags.fields[field].trim() }))
+  const custom = tags.custom.map(({ name, value }) => ({ name: name.trim(), value: value.trim() }))
+  return [...standard, ...custom].filter(({ name, value }) => name && value)
+}
+
+// Sets each tag on the URL's query string (replacing earlier values of the same
+// name) with URLSearchParams, which handles the encoding. Standard fields left
+// blank are removed, since the builder starts from the URL's own. Null for invalid URLs.
+export function applyUtmTags(url: string, tags: UtmTags): string | null {
+  const parsed = parseUrl(url)
+  if (!parsed) return null
+
+  for (const field of UTM_FIELDS) {
+    if (!tags.fields[field].trim()) parsed.searchParams.delete(utmParamName(field))
+  }
+  for (const { name, value } of listParams(tags)) parsed.searchParams.set(name, value)
+  return parsed.toString()
+}
+
+// Problems to show before applying: tags that would overwrite a different value
+// already in the URL, names repeated in the URL, and names the builder sets twice
+export function findUtmConflicts(url: string, tags: UtmTags): string[] {
+  const params = parseUrl(url)?.searchParams
+  if (!params) return []
+
+  const conflicts: string[] = []
+  const seen = new Set<string>()
+  for (const { name, value } of listParams(tags)) {
+    if (seen.has(name)) {
+      conflicts.push(`${name} is set more than once below; the last value wins`)
+      continue
+    }
+    seen.add(name)
+
+    const existing = params.getAll(name)
+    if (existing.length > 1) {
+      conflicts.push(`${name} appears ${existing.length} times in the URL; applying keeps only "${value}"`)
+    } else if (existing.length === 1 && existing[0] !== value) {
+      conflicts.push(`${name} is already in the URL as "${existing[0]}" and will be replaced`)
+    }
+  }
+  return conflicts
+}
+
+// Recently used values per field, offered as suggestions
+const RECENT_UTM_KEY = 'qr-utm-recent'
+const MAX_RECENT_VALUES = 8
+
+export type RecentUtmValues = Record<UtmField, string[]>
+
+export function loadRecentUtmValues(): RecentUtmValues {
+  const empty = { source: [], medium: [], campaign: [], term: [], content: [] }
+  const saved = localStorage.getItem(RECENT_UTM_KEY)
+  if (!saved) return empty
+
+  try {
+    const parsed = z.record(z.string(), z.array(z.string())).safeParse(JSON.parse(saved))
+    if (!parsed.success) return empty
+    return Object.fromEntries(UTM_FIELDS.map((field) => [field, parsed.data[field] ?? []])) as RecentUtmValues
+  } catch (e) {
+    console.error('Failed to parse recent UTM values:', e)
+    return empty
+  }
+}
+
+export function rememberUtmValues(tags: UtmTags): RecentUtmValues {
+  const recent = loadRecentUtmValues()
+  for (const field of UTM_FIELDS) {
+    const value = tags.fields[field].trim()
+    if (value) recent[field] = [value, ...recent[field].filter((item) => item !== value)].slice(0, MAX_RECENT_VALUES)
+  }
+  localStorage.setItem(RECENT_UTM_KEY, JSON.stringify(recent))
+  return recent
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { isPublicAddress, proxiedContentType } from './fetch-proxy'
+
+describe('isPublicAddress', () => {
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::6810:84e5']) {
+      expect(isPublicAddress(address)).toBe(true)
+    }
+  })
+
+  it('blocks loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1',
+      '0.0.0.0', '224.0.0.1', '255.255.255.255', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1'
+    ]) {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+  })
+
+  it('rejects values that are not IP addresses', () => {
+    expect(isPublicAddress('localhost')).toBe(false)
+  })
+})
+
+describe('proxiedContentType', () => {
+  it('serves pages and manifests as plain text', () => {
+    for (const type of ['text/html; charset=utf-8', 'application/xhtml+xml', 'application/manifest+json', 'application/json']) {
+      expect(proxiedContentType(type)).toBe('text/plain; charset=utf-8')
+    }
+  })
+
+  it('keeps image types', () => {
+    expect(proxiedContentType('image/png')).toBe('image/png')
+    expect(proxiedContentType('Image/SVG+XML')).toBe('image/svg+xml')
+  })
+
+  it('refuses everything else', () => {
+    for (const type of ['application/javascript', 'text/css', 'application/pdf', 'image/', null]) {
+      expect(proxiedContentType(type)).toBeNull()
+    }
+  })
+})
@@ -0,0 +1,155 @@
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+// Fetch proxy for logo detection, so the browser can read pages, manifests and
+// icons without CORS. Only public web hosts can be fetched: the dev server listens
+// on the network, and an unrestricted proxy would reach into private addresses.
+// Responses are served from the app's own origin, so nothing fetched may run as a
+// page there: pages and manifests come back as plain text, and only images keep
+// their type.
+
+export const FETCH_PROXY_PATH = '/api/fetch'
+
+const FETCH_TIMEOUT_MS = 8000
+const MAX_REDIRECTS = 5
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024
+
+class ProxyError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1]
+  if (mapped) return isPublicAddress(mapped)
+
+  const family = isIP(address)
+  if (family === 0) return false
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+// Resolves the host and refuses it unless every address is public. The fetch
+// resolves again, so a host that changes its DNS answer in between could still
+// slip through; the short timeout and size limit bound what that could read.
+async function checkTarget(value: string): Promise<URL> {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new ProxyError(400, 'Missing or invalid url')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new ProxyError(400, 'Only http and https URLs can be fetched')
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = await lookup(hostname, { all: true }).catch(() => {
+    throw new ProxyError(502, `Could not resolve ${hostname}`)
+  })
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new ProxyError(403, 'Only public hosts can be fetched')
+  }
+  return url
+}
+
+// Follows redirects by hand so every hop goes through checkTarget
+async function fetchPublic(target: string): Promise<Response> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  let url = await checkTarget(target)
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetch(url, { redirect: 'manual', signal })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) return response
+    url = await checkTarget(new URL(location, url).toString())
+  }
+  throw new ProxyError(502, 'Too many redirects')
+}
+
+async function readBody(response: Response): Promise<Buffer> {
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_RESPONSE_BYTES) {
+    throw new ProxyError(502, 'Response too large')
+  }
+  const body = Buffer.from(await response.arrayBuffer())
+  if (body.length > MAX_RESPONSE_BYTES) throw new ProxyError(502, 'Response too large')
+  return body
+}
+
+const TEXT_TYPES = new Set([
+  'text/html',
+  'application/xhtml+xml',
+  'application/manifest+json',
+  'application/json',
+  'text/plain'
+])
+
+// The type to serve an upstream response as, or null when logo detection has no
+// use for it. Images keep their type so <img> can show them; the sandbox and
+// nosniff headers keep an SVG from running script when opened directly.
+export function proxiedContentType(upstreamType: string | null): string | null {
+  const type = upstreamType?.split(';')[0].trim().toLowerCase() ?? ''
+  if (TEXT_TYPES.has(type)) return 'text/plain; charset=utf-8'
+  if (/^image\/[a-z0-9.+-]+$/.test(type)) return type
+  return null
+}
+
+// Browsers label every request with where it came from; only the app itself may
+// use the proxy, so other sites can't turn it into a relay. Callers outside a
+// browser send no label and are still limited to public hosts.
+function checkCaller(req: IncomingMessage) {
+  const site = req.headers['sec-fetch-site']
+  if (site && site !== 'same-origin') throw new ProxyError(403, 'The fetch proxy only serves this app')
+}
+
+async function handleFetch(req: IncomingMessage, res: ServerResponse) {
+  checkCaller(req)
+  const target = new URL(req.url ?? '/', 'http://localhost').searchParams.get('url')
+  if (!target) throw new ProxyError(400, 'Missing or invalid url')
+
+  const upstream = await fetchPublic(target)
+  const contentType = proxiedContentType(upstream.headers.get('content-type'))
+  if (!contentType) throw new ProxyError(415, 'Only pages, manifests and images can be fetched')
+
+  const body = await readBody(upstream)
+  res.statusCode = upstream.status
+  res.setHeader('Content-Type', contentType)
+  res.end(body)
+}
+
+// Connect-style middleware for `/api/fetch?url=…`; other requests go to `next`.
+// Mounted in the Vite dev and preview servers and in the standalone server.
+export function createFetchProxyHandler() {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== FETCH_PROXY_PATH) {
+      next()
+      return
+    }
+
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+    res.setHeader('Content-Security-Policy', 'sandbox')
+    res.setHeader('Content-Disposition', 'attachment')
+
+    handleFetch(req, res).catch((error: unknown) => {
+      res.statusCode = error instanceof ProxyError ? error.status : 502
+      res.end(error instanceof Error ? error.message : 'Fetch failed')
+    })
+  }
+}
@@ -0,0 +1,81 @@
+import { createServer } from 'node:http'
+import { createReadStream } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import { extname, join, normalize, resolve } from 'node:path'
+import { createFetchProxyHandler } from './fetch-proxy'
+import {
+  createLinkStore,
+  createScanLog,
+  createShortLinkHandler,
+  DEFAULT_SCAN_EVENTS_FILE,
+  DEFAULT_SHORT_LINKS_FILE,
+  readShortLinkPolicy
+} from './short-links'
+
+// Self-hosted short-link service for dynamic QR codes. Also serves the built app
+// from STATIC_DIR when present, so codes, API and editor share one origin, and the
+// fetch proxy the app's logo detection uses.
+//   PORT=8787 SHORT_LINKS_FILE=data/short-links.json SCAN_EVENTS_FILE=data/scan-events.jsonl \
+//   STATIC_DIR=dist node dist-server/server.js
+// Anyone who can reach the server can create links unless it is limited; set either
+// or both before exposing it publicly:
+//   SHORT_LINK_CREATE_TOKEN  creation needs this token, entered in the app's
+//                            dynamic link settings
+//   SHORT_LINK_ALLOWED_HOSTS links may only point to these hosts and their
+//                            subdomains, comma-separated (example.com,example.org)
+
+const port = Number(process.env.PORT ?? 8787)
+const staticDir = resolve(process.env.STATIC_DIR ?? 'dist')
+const handleShortLinks = createShortLinkHandler({
+  links: createLinkStore(process.env.SHORT_LINKS_FILE ?? DEFAULT_SHORT_LINKS_FILE),
+  scans: createScanLog(process.env.SCAN_EVENTS_FILE ?? DEFAULT_SCAN_EVENTS_FILE)
+}, readShortLinkPolicy(process.env))
+const handleFetchProxy = createFetchProxyHandler()
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.json': 'application/json',
+  '.woff2': 'font/woff2'
+}
+
+// Files under STATIC_DIR, falling back to index.html for client-side routes
+async function findStaticFile(pathname: string): Promise<string | null> {
+  const requested = join(staticDir, normalize(decodeURIComponent(pathname)))
+  if (!requested.startsWith(staticDir)) return null
+
+  for (const candidate of [requested, join(staticDir, 'index.html')]) {
+    const info = await stat(candidate).catch(() => null)
+    if (info?.isFile()) return candidate
+  }
+  return null
+}
+
+const server = createServer((req, res) => {
+  handleFetchProxy(req, res, () => handleShortLinks(req, res, async () => {
+    const file = req.method === 'GET' || req.method === 'HEAD'
+      ? await findStaticFile(new URL(req.url ?? '/', 'http://localhost').pathname).catch(() => null)
+      : null
+
+    if (!file) {
+      res.statusCode = 404
+      res.end('Not found')
+      return
+    }
+
+    res.setHeader('Content-Type', CONTENT_TYPES[extname(file)] ?? 'application/octet-stream')
+    if (req.method === 'HEAD') {
+      res.end()
+      return
+    }
+    createReadStream(file).pipe(res)
+  }))
+})
+
+server.listen(port, () => {
+  console.log(`🔗 Short link service listening on http://localhost:${port}`)
+})
@@ -0,0 +1,86 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createShortLinkHandler, readShortLinkPolicy, type LinkStore, type ShortLinkPolicy, type StoredLink } from './short-links'
+
+// Keeps links in memory without checking edit tokens, which these tests don't cover
+function createMemoryStore(): LinkStore {
+  const links = new Map<string, StoredLink>()
+  return {
+    async get(slug) {
+      return links.get(slug) ?? null
+    },
+    async create(url) {
+      const link = { url, tokenHash: '', createdAt: 0, updatedAt: 0 }
+      links.set('abcdef', link)
+      return { slug: 'abcdef', link, editToken: 'edit-token' }
+    },
+    async authorize(slug) {
+      return links.get(slug) as StoredLink
+    },
+    async update(slug, _token, url) {
+      const link = { ...(links.get(slug) as StoredLink), url }
+      links.set(slug, link)
+      return link
+    }
+  }
+}
+
+let server: Server | null = null
+
+afterEach(async () => {
+  if (!server) return
+  server.closeAllConnections()
+  await new Promise((resolve) => server?.close(resolve))
+  server = null
+})
+
+async function startService(policy: ShortLinkPolicy) {
+  const handler = createShortLinkHandler({ links: createMemoryStore(), scans: { record: async () => {}, list: async () => [] } }, policy)
+  server = createServer((req, res) => handler(req, res, () => res.end()))
+  await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve))
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return (url: string, token?: string) => fetch(`${origin}/api/links`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify({ url })
+  })
+}
+
+describe('short link creation policy', () => {
+  it('lets anyone create links when nothing is configured', async () => {
+    const create = await startService({})
+    expect((await create('https://anywhere.example/')).status).toBe(201)
+  })
+
+  it('requires the creation token when one is configured', async () => {
+    const create = await startService({ createToken: 'secret' })
+
+    expect((await create('https://example.com/')).status).toBe(401)
+    expect((await create('https://example.com/', 'wrong')).status).toBe(403)
+    expect((await create('https://example.com/', 'secret')).status).toBe(201)
+  })
+
+  it('only shortens links to allowed hosts and their subdomains', async () => {
+    const create = await startService({ allowedHosts: ['example.com'] })
+
+    expect((await create('https://example.com/menu')).status).toBe(201)
+    expect((await create('https://shop.example.com/')).status).toBe(201)
+    expect((await create('https://example.com.evil.test/')).status).toBe(403)
+    expect((await create('https://notexample.com/')).status).toBe(403)
+  })
+})
+
+describe('readShortLinkPolicy', () => {
+  it('reads the token and a normalized host list from the environment', () => {
+    expect(readShortLinkPolicy({
+      SHORT_LINK_CREATE_TOKEN: 'secret',
+      SHORT_LINK_ALLOWED_HOSTS: ' Example.com, *.shop.test ,'
+    })).toEqual({ createToken: 'secret', allowedHosts: ['example.com', 'shop.test'] })
+  })
+
+  it('leaves creation open when the variables are unset or empty', () => {
+    expect(readShortLinkPolicy({ SHORT_LINK_CREATE_TOKEN: '' })).toEqual({ createToken: undefined, allowedHosts: undefined })
+  })
+})
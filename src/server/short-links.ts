@@ -0,0 +1,400 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'node:crypto'
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { ScanDevice, ScanEvent } from '../lib/scan-analytics'
+
+// Redirect service behind dynamic QR codes: the code encodes a short link and the
+// target can change after printing. Links are stored in a JSON file, and only the
+// holder of the edit token returned on creation can change a link. Who may create
+// links is up to the deployment (see ShortLinkPolicy); by default anyone can.
+
+export interface StoredLink {
+  url: string
+  // SHA-256 of the edit token; the token itself is only ever sent to its creator
+  tokenHash: string
+  createdAt: number
+  updatedAt: number
+}
+
+interface LinkFile {
+  version: 1
+  links: Record<string, StoredLink>
+}
+
+// Lowercase without look-alikes (0/o, 1/l/i) so printed links can be typed by hand
+const SLUG_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyz'
+const SLUG_LENGTH = 6
+const SLUG_PATTERN = new RegExp(`^[${SLUG_ALPHABET}]{${SLUG_LENGTH}}$`)
+const MAX_URL_LENGTH = 2048
+const MAX_BODY_BYTES = 16 * 1024
+
+export const SHORT_LINK_API_PATH = '/api/links'
+export const SHORT_LINK_REDIRECT_PATH = '/r'
+
+// The prefix, then optionally a slug and a sub-resource (`/api/links/:slug/scans`)
+const ROUTE_PATTERN = new RegExp(`^(${SHORT_LINK_API_PATH}|${SHORT_LINK_REDIRECT_PATH})(?:/([^/]*)(?:/([^/]+))?)?$`)
+
+export const DEFAULT_SHORT_LINKS_FILE = 'data/short-links.json'
+export const DEFAULT_SCAN_EVENTS_FILE = 'data/scan-events.jsonl'
+
+class HttpError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+function createSlug() {
+  let slug = ''
+  for (let i = 0; i < SLUG_LENGTH; i++) slug += SLUG_ALPHABET[randomInt(SLUG_ALPHABET.length)]
+  return slug
+}
+
+// Limits on link creation. Without either, any visitor can create links to any
+// site, which makes a public deployment an open redirector.
+export interface ShortLinkPolicy {
+  // Required as `Authorization: Bearer <token>` to create a link
+  createToken?: string
+  // Hosts links may point to, subdomains included
+  allowedHosts?: string[]
+}
+
+// SHORT_LINK_CREATE_TOKEN and SHORT_LINK_ALLOWED_HOSTS (comma-separated, e.g.
+// "example.com,shop.example.org"), as read by the standalone and dev servers
+export function readShortLinkPolicy(env: Record<string, string | undefined>): ShortLinkPolicy {
+  return {
+    createToken: env.SHORT_LINK_CREATE_TOKEN || undefined,
+    allowedHosts: env.SHORT_LINK_ALLOWED_HOSTS?.split(',')
+      .map((host) => host.trim().toLowerCase().replace(/^\*?\./, ''))
+      .filter(Boolean)
+  }
+}
+
+const isAllowedHost = (hostname: string, allowedHosts: string[] = []) =>
+  allowedHosts.length === 0 || allowedHosts.some((host) => hostname === host || hostname.endsWith(`.${host}`))
+
+// Only web links can be targets; anything else would turn the service into a
+// redirector for javascript: or file: URLs
+function readTargetUrl(value: unknown, policy: ShortLinkPolicy): string {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) throw new HttpError(400, 'Invalid URL')
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new HttpError(400, 'Invalid URL')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new HttpError(400, 'Only http and https links can be shortened')
+  if (!isAllowedHost(url.hostname, policy.allowedHosts)) {
+    throw new HttpError(403, `This service doesn't shorten links to ${url.hostname}`)
+  }
+  return url.toString()
+}
+
+export interface LinkStore {
+  get(slug: string): Promise<StoredLink | null>
+  create(url: string): Promise<{ slug: string; link: StoredLink; editToken: string }>
+  // Both throw unless `editToken` is the link's token
+  authorize(slug: string, editToken: string): Promise<StoredLink>
+  update(slug: string, editToken: string, url: string): Promise<StoredLink>
+}
+
+// Compares hashes, which are the same length whatever the tokens are
+const tokenMatches = (tokenHash: string, token: string) =>
+  timingSafeEqual(Buffer.from(tokenHash, 'hex'), Buffer.from(hashToken(token), 'hex'))
+
+function checkToken(link: StoredLink | undefined, editToken: string): StoredLink {
+  if (!link) throw new HttpError(404, 'Short link not found')
+  if (!tokenMatches(link.tokenHash, editToken)) throw new HttpError(403, 'Invalid edit token')
+  return link
+}
+
+// Keeps the file in memory and rewrites it atomically after every change. Writes
+// are queued so concurrent requests can't interleave.
+export function createLinkStore(file = DEFAULT_SHORT_LINKS_FILE): LinkStore {
+  let data: Promise<LinkFile> | null = null
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const load = () => {
+    data ??= readFile(file, 'utf8')
+      .then((text) => JSON.parse(text) as LinkFile)
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return { version: 1, links: {} } satisfies LinkFile
+        throw error
+      })
+    return data
+  }
+
+  const save = async (contents: LinkFile) => {
+    await mkdir(dirname(file), { recursive: true })
+    const temporary = `${file}.tmp`
+    await writeFile(temporary, JSON.stringify(contents, null, 2))
+    await rename(temporary, file)
+  }
+
+  const mutate = <T>(change: (contents: LinkFile) => T): Promise<T> => {
+    const result = queue.then(async () => {
+      const contents = await load()
+      const value = change(contents)
+      await save(contents)
+      return value
+    })
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  return {
+    async get(slug) {
+      return (await load()).links[slug] ?? null
+    },
+    create(url) {
+      return mutate((contents) => {
+        let slug = createSlug()
+        while (contents.links[slug]) slug = createSlug()
+
+        const editToken = randomBytes(18).toString('base64url')
+        const now = Date.now()
+        const link: StoredLink = { url, tokenHash: hashToken(editToken), createdAt: now, updatedAt: now }
+        contents.links[slug] = link
+        return { slug, link, editToken }
+      })
+    },
+    async authorize(slug, editToken) {
+      return checkToken((await load()).links[slug], editToken)
+    },
+    update(slug, editToken, url) {
+      return mutate((contents) => {
+        const link = checkToken(contents.links[slug], editToken)
+        const updated = { ...link, url, updatedAt: Date.now() }
+        contents.links[slug] = updated
+        return updated
+      })
+    }
+  }
+}
+
+export interface ScanLog {
+  record(event: ScanEvent): Promise<void>
+  list(slug: string): Promise<ScanEvent[]>
+}
+
+// Appends one JSON line per scan. Events hold no IP address or full user agent,
+// only the classes the analytics view reports.
+export function createScanLog(file = DEFAULT_SCAN_EVENTS_FILE): ScanLog {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  return {
+    record(event) {
+      const result = queue.then(async () => {
+        await mkdir(dirname(file), { recursive: true })
+        await appendFile(file, `${JSON.stringify(event)}\n`)
+      })
+      queue = result.catch(() => undefined)
+      return result
+    },
+    async list(slug) {
+      const text = await readFile(file, 'utf8').catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return ''
+        throw error
+      })
+      return text.split('\n').flatMap((line) => {
+        if (!line) return []
+        try {
+          const event = JSON.parse(line) as ScanEvent
+          return event.slug === slug ? [event] : []
+        } catch {
+          // A line cut short by a crash mid-write
+          return []
+        }
+      })
+    }
+  }
+}
+
+export function classifyUserAgent(userAgent: string): ScanDevice {
+  if (/bot|crawl|spider|slurp|preview|facebookexternalhit|headless/i.test(userAgent)) return 'bot'
+  if (/ipad|tablet|kindle|silk|android(?!.*mobile)/i.test(userAgent)) return 'tablet'
+  if (/mobi|iphone|ipod|android|windows phone/i.test(userAgent)) return 'mobile'
+  if (/windows|macintosh|mac os x|x11|linux|cros/i.test(userAgent)) return 'desktop'
+  return 'other'
+}
+
+// Host of the referring page; camera apps usually send none
+function readReferrer(referer: string | undefined): string {
+  if (!referer) return ''
+  try {
+    return new URL(referer).hostname
+  } catch {
+    return ''
+  }
+}
+
+// The preferred language and region only, e.g. "de-AT" from "de-AT,de;q=0.9,en;q=0.8"
+function readLocale(acceptLanguage: string | undefined): string {
+  const tag = acceptLanguage?.split(',')[0]?.split(';')[0]?.trim() ?? ''
+  const match = tag.match(/^([a-z]{2,3})(?:-([a-z]{2}))?\b/i)
+  if (!match) return ''
+  return match[2] ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}` : match[1].toLowerCase()
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let size = 0
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large')
+    chunks.push(chunk)
+  }
+
+  try {
+    const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+    if (body && typeof body === 'object') return body as Record<string, unknown>
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'Expected a JSON object')
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+const publicLink = (slug: string, link: StoredLink) => ({
+  slug,
+  url: link.url,
+  createdAt: link.createdAt,
+  updatedAt: link.updatedAt
+})
+
+interface ShortLinkServices {
+  links: LinkStore
+  scans: ScanLog
+}
+
+const readBearerToken = (req: IncomingMessage) => req.headers.authorization?.match(/^Bearer (.+)$/)?.[1]
+
+const readEditToken = (req: IncomingMessage) => {
+  const token = readBearerToken(req)
+  if (!token) throw new HttpError(401, 'Missing edit token')
+  return token
+}
+
+function checkCreateToken(req: IncomingMessage, policy: ShortLinkPolicy) {
+  if (!policy.createToken) return
+  const token = readBearerToken(req)
+  if (!token) throw new HttpError(401, 'This service needs a creation token to shorten links')
+  if (!tokenMatches(hashToken(policy.createToken), token)) throw new HttpError(403, 'Invalid creation token')
+}
+
+async function handleApi(
+  req: IncomingMessage,
+  res: ServerResponse,
+  services: ShortLinkServices,
+  policy: ShortLinkPolicy,
+  slug: string,
+  resource: string
+) {
+  const { links } = services
+  // The app may be served from another origin than the service; edits need the token anyway
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204
+    res.end()
+    return
+  }
+
+  if (!slug && req.method === 'POST') {
+    checkCreateToken(req, policy)
+    const url = readTargetUrl((await readJsonBody(req)).url, policy)
+    const created = await links.create(url)
+    console.log('🔗 Short link created:', created.slug, '→', url)
+    sendJson(res, 201, { ...publicLink(created.slug, created.link), editToken: created.editToken })
+    return
+  }
+
+  if (!SLUG_PATTERN.test(slug)) throw new HttpError(404, 'Short link not found')
+
+  // Scans are private to the link's owner, like edits
+  if (resource === 'scans' && req.method === 'GET') {
+    await links.authorize(slug, readEditToken(req))
+    sendJson(res, 200, { slug, scans: await services.scans.list(slug) })
+    return
+  }
+  if (resource) throw new HttpError(404, 'Not found')
+
+  if (req.method === 'GET') {
+    const link = await links.get(slug)
+    if (!link) throw new HttpError(404, 'Short link not found')
+    sendJson(res, 200, publicLink(slug, link))
+    return
+  }
+
+  if (req.method === 'PUT') {
+    const token = readEditToken(req)
+    const url = readTargetUrl((await readJsonBody(req)).url, policy)
+    const link = await links.update(slug, token, url)
+    console.log('✏️ Short link updated:', slug, '→', url)
+    sendJson(res, 200, publicLink(slug, link))
+    return
+  }
+
+  throw new HttpError(405, 'Method not allowed')
+}
+
+async function handleRedirect(req: IncomingMessage, res: ServerResponse, services: ShortLinkServices, slug: string) {
+  const link = SLUG_PATTERN.test(slug) ? await services.links.get(slug) : null
+  if (!link) {
+    res.statusCode = 404
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+    res.end('This QR code link does not exist')
+    return
+  }
+
+  // Never cached, so a changed target takes effect on the next scan
+  res.statusCode = 302
+  res.setHeader('Location', link.url)
+  res.setHeader('Cache-Control', 'no-store')
+  res.end()
+
+  if (req.method !== 'GET') return
+  services.scans.record({
+    slug,
+    timestamp: Date.now(),
+    device: classifyUserAgent(req.headers['user-agent'] ?? ''),
+    referrer: readReferrer(req.headers.referer),
+    locale: readLocale(req.headers['accept-language'])
+  }).catch((error) => console.error('❌ Failed to record scan:', error))
+}
+
+// Connect-style middleware for the API (`/api/links`, `/api/links/:slug`,
+// `/api/links/:slug/scans`) and the redirects (`/r/:slug`), which record a scan
+// each. Other requests go to `next`, so it mounts in the Vite dev server as well
+// as in the standalone server.
+export function createShortLinkHandler(services: ShortLinkServices, policy: ShortLinkPolicy = {}) {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+    const [, prefix, slug = '', resource = ''] = pathname.match(ROUTE_PATTERN) ?? []
+    if (!prefix || (prefix === SHORT_LINK_REDIRECT_PATH && resource)) {
+      next()
+      return
+    }
+
+    const handled = prefix === SHORT_LINK_API_PATH
+      ? handleApi(req, res, services, policy, slug, resource)
+      : handleRedirect(req, res, services, slug)
+    handled.catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : 500
+      if (status === 500) console.error('❌ Short link request failed:', error)
+      sendJson(res, status, { error: error instanceof HttpError ? error.message : 'Internal error' })
+    })
+  }
+}
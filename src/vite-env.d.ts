@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // URL template of the fetch proxy used for logo detection, with a `{url}` placeholder
+  readonly VITE_LOGO_PROXY?: string
+  // Origin of the short-link service for dynamic codes; defaults to the app's origin
+  readonly VITE_SHORT_LINK_SERVICE?: string
+}
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Bundles the qrgen CLI for Node. Dependencies stay external and load from node_modules.
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  // The app's static assets don't belong next to the CLI
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/qrgen.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'qrgen.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -1,9 +1,45 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { createFetchProxyHandler } from './src/server/fetch-proxy';
+import { createLinkStore, createScanLog, createShortLinkHandler, readShortLinkPolicy } from './src/server/short-links';
+
+// Fetch proxy for logo detection (public hosts only). The standalone server
+// (npm run build:server) mounts the same handler; VITE_LOGO_PROXY can point elsewhere.
+function fetchProxy(): Plugin {
+  const handler = createFetchProxyHandler();
+  return {
+    name: 'fetch-proxy',
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+  };
+}
+
+// Short-link API, redirects and scan analytics for dynamic codes, stored under data/.
+// Deployments run the same handler in the standalone server (npm run build:server).
+// SHORT_LINK_CREATE_TOKEN and SHORT_LINK_ALLOWED_HOSTS limit link creation, as there.
+function shortLinks(): Plugin {
+  const handler = createShortLinkHandler(
+    { links: createLinkStore(), scans: createScanLog() },
+    readShortLinkPolicy(process.env),
+  );
+  return {
+    name: 'short-links',
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), fetchProxy(), shortLinks()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
@@ -15,4 +51,4 @@ export default defineConfig({
     host: true,
     allowedHosts: true,
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Bundles the self-hosted short-link service for Node; run it with npm run serve:links
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  // The app is served from its own build output (STATIC_DIR)
+  publicDir: false,
+  build: {
+    ssr: 'src/server/main.ts',
+    outDir: 'dist-server',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'server.js',
+      },
+    },
+  },
+});